@@ -7,8 +7,8 @@ export class ErrorDetector {
     const issues: Omit<Issue, 'viewport'>[] = [];
     const jsErrors: string[] = [];
 
-    // Check HTTP status code
-    if (httpStatus && httpStatus !== 200 && httpStatus !== 304) {
+    // Check HTTP status code (5xx is reported by the scanner as server_error)
+    if (httpStatus && httpStatus !== 200 && httpStatus !== 304 && httpStatus < 500) {
       issues.push({
         type: 'http_error',
         severity: 'error',
@@ -0,0 +1,121 @@
+import { Browser, BrowserContext } from 'playwright';
+import { CRAWLER_USER_AGENT } from '../crawler/robots-txt.js';
+import { Config } from '../types.js';
+import logger from '../utils/logger.js';
+
+export interface LinkStatus {
+  url: string;
+  status: number;
+  error?: string;
+}
+
+/**
+ * Checks link targets with HEAD (falling back to GET) through a Playwright
+ * request context. Requests are serialized with config.linkCheck.delay
+ * between them, and every target is only requested once per verifier, so
+ * one verifier should be shared by all pages of a test. Targets beyond
+ * config.linkCheck.maxLinks are skipped and counted.
+ */
+export class LinkVerifier {
+  private config: Config;
+  private browser: Browser;
+  private context?: Promise<BrowserContext>;
+  private cache: Map<string, Promise<LinkStatus>> = new Map();
+  private queue: Promise<void> = Promise.resolve();
+  private skipped: Set<string> = new Set();
+
+  constructor(browser: Browser, config: Config) {
+    this.browser = browser;
+    this.config = config;
+  }
+
+  private getContext(): Promise<BrowserContext> {
+    if (!this.context) {
+      this.context = this.browser.newContext({ userAgent: CRAWLER_USER_AGENT });
+    }
+    return this.context;
+  }
+
+  /**
+   * Run task after the previously scheduled request plus the configured delay
+   */
+  private schedule<T>(task: () => Promise<T>): Promise<T> {
+    const run = this.queue.then(task);
+    const pause = () => new Promise<void>(resolve => setTimeout(resolve, this.config.linkCheck.delay));
+    this.queue = run.then(pause, pause);
+    return run;
+  }
+
+  private async request(url: string): Promise<LinkStatus> {
+    const context = await this.getContext();
+    const options = { timeout: this.config.timeout, maxRedirects: 5, failOnStatusCode: false };
+
+    try {
+      let response = await context.request.head(url, options);
+      // Plenty of servers reject or mishandle HEAD; confirm failures with GET
+      if (response.status() >= 400) {
+        await response.dispose();
+        response = await context.request.get(url, options);
+      }
+      const status = response.status();
+      await response.dispose();
+      return { url, status };
+    } catch (error) {
+      return { url, status: 0, error: error instanceof Error ? error.message.split('\n')[0] : String(error) };
+    }
+  }
+
+  private shouldCheck(url: string, pageUrl: string): boolean {
+    if (!/^https?:/i.test(url)) return false;
+    if (this.config.linkCheck.includeExternal) return true;
+    try {
+      return new URL(url).hostname === new URL(pageUrl).hostname;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Check the link targets of one page and return the broken ones
+   * (HTTP status >= 400 or no response)
+   */
+  async verify(hrefs: string[], pageUrl: string): Promise<LinkStatus[]> {
+    const targets = Array.from(new Set(hrefs.map(href => href.split('#')[0])))
+      .filter(url => this.shouldCheck(url, pageUrl));
+
+    const checks: Promise<LinkStatus>[] = [];
+    let skipped = 0;
+    for (const url of targets) {
+      let check = this.cache.get(url);
+      if (!check) {
+        if (this.cache.size >= this.config.linkCheck.maxLinks) {
+          skipped++;
+          this.skipped.add(url);
+          continue;
+        }
+        check = this.schedule(() => this.request(url));
+        this.cache.set(url, check);
+      }
+      checks.push(check);
+    }
+    if (skipped > 0) {
+      logger.warn(`Link check limit of ${this.config.linkCheck.maxLinks} reached: skipped ${skipped} links on ${pageUrl}`);
+    }
+
+    const results = await Promise.all(checks);
+    const broken = results.filter(r => r.status === 0 || r.status >= 400);
+    if (broken.length > 0) {
+      logger.warn(`Found ${broken.length} broken links on ${pageUrl}`);
+    }
+    return broken;
+  }
+
+  async close(): Promise<void> {
+    if (this.skipped.size > 0) {
+      logger.warn(`Link check skipped ${this.skipped.size} targets beyond linkCheck.maxLinks (${this.config.linkCheck.maxLinks})`);
+    }
+    const context = this.context;
+    this.context = undefined;
+    await context?.then(c => c.close(), () => undefined);
+  }
+}
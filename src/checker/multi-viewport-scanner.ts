@@ -1,10 +1,17 @@
-import { Page, Browser } from 'playwright';
+import { Page, Browser, Response } from 'playwright';
 import { ViewportChecker } from './viewport-checker.js';
 import { ErrorDetector } from './error-detector.js';
 import { ScreenshotCapture } from './screenshot-capture.js';
 import { SEOChecker, SEOResult } from './seo-checker.js';
-import { PageResult, ViewportMode, ViewportType, Config } from '../types.js';
+import { LinkVerifier } from './link-verifier.js';
+import { RedirectChecker } from './redirect-checker.js';
+import { classifyNavigationError, isRetryable, NavigationError } from './navigation-failure.js';
+import { AuthSession, endedOnLoginPage } from '../crawler/auth-session.js';
+import { RobotsChecker } from './robots-checker.js';
+import { PageResult, ViewportMode, ViewportType, Config, RequestProfile } from '../types.js';
 import { getViewportModes } from '../utils/page-utils.js';
+import { applyProfileCookies, profileContextOptions, resolveRequestProfile } from '../utils/request-profile.js';
+import { HostScheduler } from '../utils/host-scheduler.js';
 import logger from '../utils/logger.js';
 
 export class MultiViewportScanner {
@@ -12,21 +19,91 @@ export class MultiViewportScanner {
   private errorDetector: ErrorDetector;
   private screenshotCapture: ScreenshotCapture;
   private seoChecker: SEOChecker;
+  private linkVerifier?: LinkVerifier;
+  private robotsChecker: RobotsChecker;
+  private redirectChecker: RedirectChecker;
   private config: Config;
   private browser: Browser;
+  private authSessions: Map<string, AuthSession>;
+  private profileOverride?: RequestProfile;
+  private scheduler: HostScheduler;
 
-  constructor(browser: Browser, config: Config) {
+  constructor(
+    browser: Browser,
+    config: Config,
+    authSessions: Map<string, AuthSession> = new Map(),
+    profileOverride?: RequestProfile,
+    scheduler: HostScheduler = new HostScheduler(config)
+  ) {
     this.config = config;
     this.browser = browser;
+    this.authSessions = authSessions;
+    this.profileOverride = profileOverride;
+    this.scheduler = scheduler;
     this.viewportChecker = new ViewportChecker();
     this.errorDetector = new ErrorDetector();
-    this.seoChecker = new SEOChecker();
+    // One verifier per scanner so link checks are cached across pages of a test
+    this.linkVerifier = config.checks.brokenLinks ? new LinkVerifier(browser, config) : undefined;
+    this.seoChecker = new SEOChecker(this.linkVerifier);
+    this.robotsChecker = new RobotsChecker(config);
+    this.redirectChecker = new RedirectChecker();
     this.screenshotCapture = new ScreenshotCapture(
       browser,
       config.output.screenshotsDir
     );
   }
 
+  /**
+   * Navigate to url, retrying retryable failures and 5xx responses up to
+   * config.retries times with exponential backoff. The attempt count is
+   * recorded on the result before each try so failures report it too.
+   */
+  private async navigate(
+    page: Page,
+    url: string,
+    viewport: ViewportType,
+    result: PageResult
+  ): Promise<{ response: Response | null; loadTime: number }> {
+    const maxAttempts = Math.max(0, this.config.retries) + 1;
+
+    for (let attempt = 1; ; attempt++) {
+      result.attempts![viewport] = attempt;
+      if (attempt > 1) {
+        const backoff = this.config.retryDelay * 2 ** (attempt - 2);
+        logger.info(`Retrying ${url} with ${viewport} in ${backoff}ms (attempt ${attempt}/${maxAttempts})`);
+        await new Promise(resolve => setTimeout(resolve, backoff));
+      }
+
+      try {
+        let loadTime = 0;
+        const response = await this.scheduler.schedule(url, async () => {
+          // Time spent waiting for a host slot is not load time
+          const pageLoadStart = Date.now();
+          const navigation = await page.goto(url, {
+            waitUntil: 'domcontentloaded',
+            timeout: this.config.timeout,
+          });
+          loadTime = Date.now() - pageLoadStart;
+          return navigation;
+        });
+        const status = response?.status() || 0;
+        this.scheduler.report(url, status);
+
+        if (status >= 500 && attempt < maxAttempts) {
+          logger.warn(`HTTP ${status} for ${url} with ${viewport} (attempt ${attempt}/${maxAttempts})`);
+          continue;
+        }
+        return { response, loadTime };
+      } catch (error) {
+        const type = classifyNavigationError(error);
+        if (!isRetryable(type) || attempt >= maxAttempts) {
+          throw new NavigationError(error, attempt);
+        }
+        logger.warn(`Navigation to ${url} with ${viewport} failed: ${type} (attempt ${attempt}/${maxAttempts})`);
+      }
+    }
+  }
+
   async scanPage(
     url: string,
     domain: string,
@@ -45,17 +122,29 @@ export class MultiViewportScanner {
       timestamp: Date.now(),
       loadTime: 0,
       httpStatus: 200,
+      viewportStatus: {},
+      redirectChains: {},
+      attempts: {},
       requestIds: {},
       seo: undefined,
     };
 
     const viewportModes = getViewportModes(this.config.viewports.pc, this.config.viewports.mobile);
     let firstViewportPage: Page | null = null;
+    let host = domain;
+    try {
+      host = new URL(url).hostname;
+    } catch {
+      // Invalid URL, fall back to the domain label
+    }
+    const auth = this.authSessions.get(host);
+    const requestProfile = resolveRequestProfile(this.config.requestProfiles, host, this.profileOverride);
 
     // Process viewports SEQUENTIALLY to avoid resource contention and improve success rate
     for (const mode of viewportModes) {
       try {
         const context = await this.browser.newContext({
+          ...profileContextOptions(requestProfile),
           userAgent: mode.userAgent,
           viewport: {
             width: mode.config.width,
@@ -64,7 +153,9 @@ export class MultiViewportScanner {
           deviceScaleFactor: mode.config.deviceScaleFactor,
           isMobile: mode.config.isMobile,
           hasTouch: mode.config.hasTouch,
+          storageState: auth?.storageState,
         });
+        await applyProfileCookies(context, requestProfile, host);
 
         await context.route('**/*', route => {
           const urlStr = route.request().url();
@@ -101,12 +192,35 @@ export class MultiViewportScanner {
         logger.info(`Testing ${url} with ${mode.name}`);
 
         // Measure page load time and HTTP status
-        const pageLoadStart = Date.now();
-        const response = await page.goto(url, {
-          waitUntil: 'domcontentloaded',
-          timeout: this.config.timeout,
-        });
-        const pageLoadTime = Date.now() - pageLoadStart;
+        const { response, loadTime: pageLoadTime } = await this.navigate(page, url, mode.name, result);
+        const httpStatus = response?.status() || 0;
+        result.viewportStatus![mode.name] = httpStatus;
+
+        if (httpStatus >= 500) {
+          result.issues.push({
+            type: 'server_error',
+            severity: 'error',
+            message: `HTTP status code ${httpStatus} after ${result.attempts![mode.name]} attempts`,
+            viewport: mode.name,
+          });
+        }
+
+        if (endedOnLoginPage(auth, url, page.url())) {
+          result.issues.push({
+            type: 'login_redirect',
+            severity: 'error',
+            message: `Logged-in session was redirected to the login page (${page.url()})`,
+            viewport: mode.name,
+          });
+        }
+
+        if (response) {
+          const chain = await this.redirectChecker.captureChain(response);
+          result.redirectChains![mode.name] = chain;
+          if (this.config.checks.redirects) {
+            result.issues.push(...await this.redirectChecker.check(page, chain, mode.name));
+          }
+        }
 
         // Store load time and HTTP status from first viewport
         if (mode.name === 'pc_normal') {
@@ -212,12 +326,23 @@ export class MultiViewportScanner {
         }
       } catch (error) {
         logger.error(`Failed to scan ${url} with ${mode.name}:`, error);
-        result.issues.push({
-          type: 'timeout',
-          severity: 'error',
-          message: error instanceof Error ? error.message : 'Unknown error',
-          viewport: mode.name,
-        });
+        // Only page.goto failures are navigation failures; context, check and
+        // screenshot errors are reported as scan errors
+        if (error instanceof NavigationError) {
+          result.issues.push({
+            type: error.type,
+            severity: 'error',
+            message: error.message + (error.attempts > 1 ? ` (after ${error.attempts} attempts)` : ''),
+            viewport: mode.name,
+          });
+        } else {
+          result.issues.push({
+            type: 'scan_error',
+            severity: 'error',
+            message: error instanceof Error ? error.message : 'Unknown error',
+            viewport: mode.name,
+          });
+        }
         
         // Ensure context is closed on error
         if (mode.name !== 'pc_normal') {
@@ -232,7 +357,7 @@ export class MultiViewportScanner {
     if (firstViewportPage) {
       try {
         logger.info(`Performing SEO analysis for ${url}`);
-        result.seo = await this.seoChecker.checkSEO(firstViewportPage);
+        result.seo = await this.seoChecker.checkSEO(firstViewportPage, url);
         logger.info(`SEO score for ${url}: ${result.seo.score}/100`);
       } catch (error) {
         logger.error(`Failed to perform SEO analysis for ${url}:`, error);
@@ -241,6 +366,16 @@ export class MultiViewportScanner {
       await firstViewportPage.context().close();
     }
 
+    // Googlebot access: robots.txt rules and spider-only failures
+    if (this.config.checks.robots) {
+      try {
+        result.issues.push(...await this.robotsChecker.checkUrl(url, pageType));
+      } catch (error) {
+        logger.warn(`Failed to check robots.txt for ${url}`);
+      }
+      result.issues.push(...this.robotsChecker.checkSpiderAccess(result));
+    }
+
     if (result.issues.some(i => i.severity === 'error')) {
       result.status = 'error';
     }
@@ -249,4 +384,11 @@ export class MultiViewportScanner {
 
     return result;
   }
+
+  /**
+   * Release the link verifier's browser context once all pages are scanned
+   */
+  async close(): Promise<void> {
+    await this.linkVerifier?.close();
+  }
 }
@@ -0,0 +1,51 @@
+import { Issue } from '../types.js';
+
+export type NavigationFailureType = Extract<
+  Issue['type'],
+  'dns_error' | 'connection_reset' | 'timeout' | 'server_error' | 'redirect_loop' | 'navigation_failed'
+>;
+
+// Failures that are often caused by flaky infrastructure and worth another attempt
+const RETRYABLE: NavigationFailureType[] = ['dns_error', 'connection_reset', 'timeout', 'server_error'];
+
+/**
+ * Classify an error thrown by page.goto from its Chromium net error code
+ */
+export function classifyNavigationError(error: unknown): NavigationFailureType {
+  const message = error instanceof Error ? error.message : String(error);
+
+  if (/ERR_NAME_NOT_RESOLVED|ERR_NAME_RESOLUTION_FAILED/.test(message)) {
+    return 'dns_error';
+  }
+  if (/ERR_CONNECTION_RESET|ERR_CONNECTION_CLOSED|ERR_CONNECTION_ABORTED|ERR_EMPTY_RESPONSE/.test(message)) {
+    return 'connection_reset';
+  }
+  if ((error instanceof Error && error.name === 'TimeoutError') || /ERR_TIMED_OUT|ERR_CONNECTION_TIMED_OUT/.test(message)) {
+    return 'timeout';
+  }
+  // Chromium gives up on redirect loops before any response is returned
+  if (message.includes('ERR_TOO_MANY_REDIRECTS')) {
+    return 'redirect_loop';
+  }
+  return 'navigation_failed';
+}
+
+/**
+ * Thrown by the scanner when page.goto fails for good, so navigation
+ * failures can be told apart from errors in the checks that follow
+ */
+export class NavigationError extends Error {
+  readonly type: NavigationFailureType;
+  readonly attempts: number;
+
+  constructor(cause: unknown, attempts: number) {
+    super(cause instanceof Error ? cause.message : String(cause), { cause });
+    this.name = 'NavigationError';
+    this.type = classifyNavigationError(cause);
+    this.attempts = attempts;
+  }
+}
+
+export function isRetryable(type: NavigationFailureType): boolean {
+  return RETRYABLE.includes(type);
+}
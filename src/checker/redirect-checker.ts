@@ -0,0 +1,122 @@
+import { Page, Response } from 'playwright';
+import { Issue, RedirectHop, ViewportType } from '../types.js';
+
+// More redirects than this before the final page is reported as a chain
+const MAX_REDIRECT_HOPS = 1;
+const TEMPORARY_STATUSES = [302, 303, 307];
+
+/**
+ * Locale label of a host such as "ar.guazi.com" -> "ar"
+ */
+function localeOf(host: string): string | null {
+  const labels = host.split('.');
+  if (labels.length < 3) return null;
+  return /^[a-z]{2}(-[a-z]{2})?$/i.test(labels[0]) ? labels[0].toLowerCase() : null;
+}
+
+function parentDomain(host: string): string {
+  return host.split('.').slice(1).join('.');
+}
+
+function sameUrl(a: string, b: string): boolean {
+  return a.replace(/\/$/, '') === b.replace(/\/$/, '');
+}
+
+export class RedirectChecker {
+  /**
+   * Rebuild the redirect chain that led to a navigation response, oldest
+   * request first. The last hop is the final response.
+   */
+  async captureChain(response: Response): Promise<RedirectHop[]> {
+    const chain: RedirectHop[] = [{ url: response.url(), status: response.status() }];
+
+    let request = response.request().redirectedFrom();
+    while (request) {
+      const redirect = await request.response();
+      chain.unshift({ url: request.url(), status: redirect?.status() || 0 });
+      request = request.redirectedFrom();
+    }
+
+    return chain;
+  }
+
+  /**
+   * Check a captured chain. Temporary redirects are reported when they
+   * start at the requested URL or at the URL the landing page declares as
+   * canonical, since both should resolve directly.
+   */
+  async check(page: Page, chain: RedirectHop[], viewport: ViewportType): Promise<Issue[]> {
+    const issues: Issue[] = [];
+    const redirects = chain.slice(0, -1);
+    if (redirects.length === 0) return issues;
+
+    const requested = chain[0].url;
+    const landing = chain[chain.length - 1].url;
+    const path = chain.map(hop => `${hop.status} ${hop.url}`).join(' → ');
+
+    if (new Set(chain.map(hop => hop.url)).size < chain.length) {
+      issues.push({
+        type: 'redirect_loop',
+        severity: 'error',
+        message: `Redirect loop: ${path}`,
+        viewport,
+      });
+    }
+
+    if (redirects.length > MAX_REDIRECT_HOPS) {
+      issues.push({
+        type: 'redirect_chain',
+        severity: 'warning',
+        message: `Redirect chain with ${redirects.length} hops: ${path}`,
+        viewport,
+      });
+    }
+
+    let canonical: string | null = null;
+    try {
+      canonical = await page.evaluate(() => {
+        const link = document.querySelector('link[rel="canonical"]') as HTMLLinkElement | null;
+        return link?.href || null;
+      });
+    } catch {
+      // Page may have navigated again
+    }
+
+    for (const hop of redirects) {
+      if (!TEMPORARY_STATUSES.includes(hop.status)) continue;
+      const isCanonical = !!canonical && sameUrl(hop.url, canonical);
+      if (isCanonical || sameUrl(hop.url, requested)) {
+        const subject = isCanonical ? 'Canonical URL' : 'Requested URL';
+        issues.push({
+          type: 'temporary_redirect',
+          severity: 'warning',
+          message: `${subject} ${hop.url} uses a temporary ${hop.status} redirect (use 301/308)`,
+          viewport,
+        });
+      }
+    }
+
+    try {
+      const fromHost = new URL(requested).hostname;
+      const toHost = new URL(landing).hostname;
+      const fromLocale = localeOf(fromHost);
+      if (
+        fromLocale &&
+        fromHost !== toHost &&
+        localeOf(toHost) !== fromLocale &&
+        (parentDomain(fromHost) === parentDomain(toHost) || toHost === parentDomain(fromHost))
+      ) {
+        issues.push({
+          type: 'cross_locale_redirect',
+          severity: 'error',
+          message: `${fromHost} redirects to ${toHost}, leaving the ${fromLocale} locale: ${path}`,
+          viewport,
+        });
+      }
+    } catch {
+      // Invalid URL in chain
+    }
+
+    return issues;
+  }
+}
@@ -0,0 +1,86 @@
+import { RobotsTxt, fetchRobotsTxt } from '../crawler/robots-txt.js';
+import { Config, Issue, PageResult, ViewportType } from '../types.js';
+import logger from '../utils/logger.js';
+
+const SPIDER_AGENT = 'Googlebot';
+
+export class RobotsChecker {
+  private config: Config;
+  private cache: Map<string, Promise<RobotsTxt | null>> = new Map();
+
+  constructor(config: Config) {
+    this.config = config;
+  }
+
+  /**
+   * Load robots.txt once per host
+   */
+  private getRobots(host: string): Promise<RobotsTxt | null> {
+    let robots = this.cache.get(host);
+    if (!robots) {
+      robots = fetchRobotsTxt(host, this.config.timeout);
+      this.cache.set(host, robots);
+    }
+    return robots;
+  }
+
+  /**
+   * Check a URL against the Googlebot rules. Detail and list pages are the
+   * ones we need indexed, so a disallow there is an error.
+   */
+  async checkUrl(url: string, pageType: PageResult['pageType']): Promise<Issue[]> {
+    let host: string;
+    try {
+      host = new URL(url).hostname;
+    } catch {
+      return [];
+    }
+
+    const robots = await this.getRobots(host);
+    if (!robots) return [];
+
+    const rule = robots.findRule(url, SPIDER_AGENT);
+    if (!rule || rule.allow) return [];
+
+    const important = pageType === 'detail' || pageType === 'list';
+    logger.warn(`robots.txt disallows ${SPIDER_AGENT} on ${url} (Disallow: ${rule.path})`);
+
+    return [{
+      type: 'robots_disallowed',
+      severity: important ? 'error' : 'info',
+      message: `robots.txt disallows ${SPIDER_AGENT} for this ${pageType} page (Disallow: ${rule.path})`,
+      viewport: 'pc_spider',
+    }];
+  }
+
+  /**
+   * Report spider viewports that fail while the matching normal viewport
+   * loads fine, which usually means bot traffic is being blocked
+   */
+  checkSpiderAccess(result: PageResult): Issue[] {
+    const issues: Issue[] = [];
+    const statuses = result.viewportStatus || {};
+    const pairs: Array<[ViewportType, ViewportType]> = [
+      ['pc_normal', 'pc_spider'],
+      ['mobile_normal', 'mobile_spider'],
+    ];
+
+    const failed = (viewport: ViewportType): boolean => {
+      const status = statuses[viewport];
+      return !status || status >= 400;
+    };
+
+    for (const [normal, spider] of pairs) {
+      if (!failed(normal) && failed(spider)) {
+        issues.push({
+          type: 'spider_blocked',
+          severity: 'error',
+          message: `Googlebot request failed (${statuses[spider] ? `HTTP ${statuses[spider]}` : 'no response'}) while ${normal} loaded with HTTP ${statuses[normal]}`,
+          viewport: spider,
+        });
+      }
+    }
+
+    return issues;
+  }
+}
@@ -1,4 +1,5 @@
 import { Page } from 'playwright';
+import { LinkVerifier, LinkStatus } from './link-verifier.js';
 
 export interface SEOResult {
   meta: {
@@ -61,6 +62,7 @@ export interface SEOResult {
   links: {
     totalLinks: number;
     brokenLinks: number;
+    brokenTargets: LinkStatus[];
     noFollowLinks: number;
     issues: string[];
   };
@@ -68,7 +70,13 @@ export interface SEOResult {
 }
 
 export class SEOChecker {
-  async checkSEO(page: Page): Promise<SEOResult> {
+  private linkVerifier?: LinkVerifier;
+
+  constructor(linkVerifier?: LinkVerifier) {
+    this.linkVerifier = linkVerifier;
+  }
+
+  async checkSEO(page: Page, pageUrl: string = page.url()): Promise<SEOResult> {
     const result: SEOResult = {
       meta: {
         hasTitle: false,
@@ -130,6 +138,7 @@ export class SEOChecker {
       links: {
         totalLinks: 0,
         brokenLinks: 0,
+        brokenTargets: [],
         noFollowLinks: 0,
         issues: [],
       },
@@ -273,6 +282,7 @@ export class SEOChecker {
 
       data.links.totalLinks = links.length;
       data.links.noFollowLinks = noFollowLinks;
+      data.links.hrefs = Array.from(links).map(link => (link as HTMLAnchorElement).href);
 
       return data;
     });
@@ -310,11 +320,17 @@ export class SEOChecker {
       ...seoData.images,
     };
 
+    const { hrefs, ...linkData } = seoData.links;
     result.links = {
       ...result.links,
-      ...seoData.links,
+      ...linkData,
     };
 
+    if (this.linkVerifier) {
+      result.links.brokenTargets = await this.linkVerifier.verify(hrefs, pageUrl);
+      result.links.brokenLinks = result.links.brokenTargets.length;
+    }
+
     // Generate issues
     this.generateMetaIssues(result);
     this.generateOpenGraphIssues(result);
@@ -424,6 +440,14 @@ export class SEOChecker {
         result.links.issues.push(`High nofollow ratio: ${noFollowRatio.toFixed(1)}% (${result.links.noFollowLinks}/${result.links.totalLinks} links)`);
       }
     }
+
+    if (result.links.brokenLinks > 0) {
+      const examples = result.links.brokenTargets
+        .slice(0, 5)
+        .map(link => `${link.url} (${link.status || link.error || 'no response'})`)
+        .join(', ');
+      result.links.issues.push(`${result.links.brokenLinks} broken links: ${examples}`);
+    }
   }
 
   private calculateScore(result: SEOResult): number {
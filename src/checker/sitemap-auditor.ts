@@ -0,0 +1,226 @@
+import { CRAWLER_USER_AGENT } from '../crawler/robots-txt.js';
+import { SitemapEntry } from '../crawler/sitemap-discovery.js';
+import { URLNormalizer, resolveQueryParamRules } from '../crawler/url-normalizer.js';
+import { Config, PageUrl } from '../types.js';
+import logger from '../utils/logger.js';
+
+export type SitemapIssueType =
+  | 'sitemap_http_error'
+  | 'sitemap_redirect'
+  | 'sitemap_canonical_mismatch'
+  | 'sitemap_noindex'
+  | 'sitemap_missing';
+
+export interface SitemapIssue {
+  url: string;
+  type: SitemapIssueType;
+  severity: 'error' | 'warning' | 'info';
+  message: string;
+  sitemap?: string;
+}
+
+export interface SitemapAuditResult {
+  totalEntries: number;
+  checked: number;
+  // False when the sitemap was truncated and missing pages were not checked
+  missingChecked: boolean;
+  issues: SitemapIssue[];
+}
+
+const MAX_REDIRECTS = 5;
+
+export class SitemapAuditor {
+  private config: Config;
+
+  constructor(config: Config) {
+    this.config = config;
+  }
+
+  /**
+   * Comparison key: the normalizer's canonical form (tracking and pagination
+   * params handled by the domain's rules) without a trailing slash
+   */
+  private compareKey(url: string, normalizer: URLNormalizer): string {
+    try {
+      const urlObj = new URL(normalizer.normalize(url)?.normalized || url);
+      urlObj.hash = '';
+      urlObj.hostname = urlObj.hostname.toLowerCase();
+      if (urlObj.pathname.length > 1) {
+        urlObj.pathname = urlObj.pathname.replace(/\/+$/, '');
+      }
+      return urlObj.href;
+    } catch {
+      return url;
+    }
+  }
+
+  private getAttribute(tag: string, name: string): string | null {
+    const match = tag.match(new RegExp(`\\b${name}\\s*=\\s*(?:"([^"]*)"|'([^']*)'|([^\\s>]+))`, 'i'));
+    return match ? (match[1] ?? match[2] ?? match[3] ?? '') : null;
+  }
+
+  private findCanonical(html: string): string | null {
+    for (const tag of html.match(/<link\b[^>]*>/gi) || []) {
+      const rel = this.getAttribute(tag, 'rel');
+      if (rel && rel.toLowerCase().split(/\s+/).includes('canonical')) {
+        return this.getAttribute(tag, 'href');
+      }
+    }
+    return null;
+  }
+
+  private hasNoindex(html: string, robotsHeader: string | null): boolean {
+    if (robotsHeader && /noindex/i.test(robotsHeader)) {
+      return true;
+    }
+    for (const tag of html.match(/<meta\b[^>]*>/gi) || []) {
+      const name = this.getAttribute(tag, 'name')?.toLowerCase();
+      if (name === 'robots' || name === 'googlebot') {
+        if (/noindex/i.test(this.getAttribute(tag, 'content') || '')) {
+          return true;
+        }
+      }
+    }
+    return false;
+  }
+
+  /**
+   * Check a single sitemap entry: follow redirects manually so every hop is
+   * visible, then inspect the final document for canonical and noindex.
+   */
+  private async checkEntry(entry: SitemapEntry, normalizer: URLNormalizer): Promise<SitemapIssue[]> {
+    const issues: SitemapIssue[] = [];
+    const chain: string[] = [entry.loc];
+    let currentUrl = entry.loc;
+
+    try {
+      let response = await this.fetchManual(currentUrl);
+      while (response.status >= 300 && response.status < 400 && chain.length <= MAX_REDIRECTS) {
+        const location = response.headers.get('location');
+        if (!location) break;
+        currentUrl = new URL(location, currentUrl).href;
+        chain.push(`${response.status} → ${currentUrl}`);
+        response = await this.fetchManual(currentUrl);
+      }
+
+      if (chain.length > 1) {
+        issues.push({
+          url: entry.loc,
+          type: 'sitemap_redirect',
+          severity: 'warning',
+          message: `Sitemap URL redirects: ${chain.join(' ')}`,
+          sitemap: entry.sitemap,
+        });
+      }
+
+      if (response.status >= 300) {
+        issues.push({
+          url: entry.loc,
+          type: 'sitemap_http_error',
+          severity: 'error',
+          message: response.status < 400
+            ? `Sitemap URL did not resolve after ${MAX_REDIRECTS} redirects`
+            : `Sitemap URL returned HTTP ${response.status}`,
+          sitemap: entry.sitemap,
+        });
+        return issues;
+      }
+
+      const contentType = response.headers.get('content-type') || '';
+      if (!contentType.includes('html')) {
+        return issues;
+      }
+
+      const html = await response.text();
+
+      if (this.hasNoindex(html, response.headers.get('x-robots-tag'))) {
+        issues.push({
+          url: entry.loc,
+          type: 'sitemap_noindex',
+          severity: 'error',
+          message: 'Sitemap URL is marked noindex',
+          sitemap: entry.sitemap,
+        });
+      }
+
+      const canonical = this.findCanonical(html);
+      if (canonical) {
+        const canonicalUrl = new URL(canonical, currentUrl).href;
+        if (this.compareKey(canonicalUrl, normalizer) !== this.compareKey(entry.loc, normalizer)) {
+          issues.push({
+            url: entry.loc,
+            type: 'sitemap_canonical_mismatch',
+            severity: 'warning',
+            message: `Canonical points to ${canonicalUrl}`,
+            sitemap: entry.sitemap,
+          });
+        }
+      }
+    } catch (error) {
+      issues.push({
+        url: entry.loc,
+        type: 'sitemap_http_error',
+        severity: 'error',
+        message: `Request failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        sitemap: entry.sitemap,
+      });
+    }
+
+    return issues;
+  }
+
+  private fetchManual(url: string): Promise<Response> {
+    return fetch(url, {
+      redirect: 'manual',
+      headers: { 'User-Agent': CRAWLER_USER_AGENT },
+      signal: AbortSignal.timeout(this.config.timeout),
+    });
+  }
+
+  /**
+   * Audit sitemap entries and report crawled pages the sitemap does not
+   * list. When the sitemap was truncated at sitemap.maxUrls the missing
+   * check is skipped, since unread entries would be reported as missing.
+   */
+  async audit(entries: SitemapEntry[], crawled: PageUrl[], domain: string, truncated: boolean = false): Promise<SitemapAuditResult> {
+    const issues: SitemapIssue[] = [];
+    // Excluded patterns do not apply: every listed URL must get a comparable key
+    const normalizer = new URLNormalizer(domain, [], resolveQueryParamRules(this.config.queryParams, domain));
+    const toCheck = entries.slice(0, this.config.sitemap.auditMaxUrls);
+
+    logger.info(`Auditing ${toCheck.length}/${entries.length} sitemap entries`);
+
+    for (const entry of toCheck) {
+      issues.push(...await this.checkEntry(entry, normalizer));
+      await new Promise(resolve => setTimeout(resolve, this.config.delay));
+    }
+
+    // Crawled pages that the sitemap does not list
+    const missingChecked = entries.length > 0 && !truncated;
+    if (truncated) {
+      logger.info(`Sitemap was truncated at ${entries.length} entries; skipping the missing-page check`);
+    }
+    if (missingChecked) {
+      const listed = new Set(entries.map(e => this.compareKey(e.loc, normalizer)));
+      for (const page of crawled) {
+        if (!listed.has(this.compareKey(page.url, normalizer))) {
+          issues.push({
+            url: page.url,
+            type: 'sitemap_missing',
+            severity: 'warning',
+            message: `Crawled page (depth ${page.depth ?? 0}) is not listed in the sitemap`,
+          });
+        }
+      }
+    }
+
+    logger.info(`Sitemap audit found ${issues.length} issues`);
+
+    return {
+      totalEntries: entries.length,
+      checked: toCheck.length,
+      missingChecked,
+      issues,
+    };
+  }
+}
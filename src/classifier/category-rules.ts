@@ -0,0 +1,85 @@
+import { CategoryRule, DOMFingerprint, PageType } from '../types.js';
+
+export interface CategoryMatch {
+  category: string;
+  pageType: PageType;
+}
+
+interface CompiledRule {
+  rule: CategoryRule;
+  url: RegExp[];
+}
+
+const FALLBACK: CategoryMatch = { category: 'other', pageType: 'other' };
+
+/**
+ * Maps pages to a category and page type using the ordered rules from
+ * config. A rule matches when every condition it sets holds: one of its URL
+ * patterns matches the path, one of its selectors was found on the page and
+ * the fingerprint reaches all of its thresholds. The first matching rule wins.
+ */
+export class CategoryRuleEngine {
+  private rules: CompiledRule[];
+
+  constructor(rules: CategoryRule[]) {
+    this.rules = rules.map(rule => ({
+      rule,
+      url: (rule.url || []).map(pattern => {
+        try {
+          return new RegExp(pattern, 'i');
+        } catch {
+          throw new Error(`Invalid URL pattern "${pattern}" in category rule "${rule.category}"`);
+        }
+      }),
+    }));
+  }
+
+  /**
+   * CSS selectors the DOM analyzer has to test on every page
+   */
+  get selectors(): string[] {
+    return Array.from(new Set(this.rules.flatMap(({ rule }) => rule.selectors || [])));
+  }
+
+  private matches({ rule, url: patterns }: CompiledRule, pathname: string, fp?: DOMFingerprint): boolean {
+    if (patterns.length > 0 && !patterns.some(pattern => pattern.test(pathname))) {
+      return false;
+    }
+
+    // Page conditions need a fingerprint; without one only URL rules apply
+    const needsPage = !!rule.selectors?.length
+      || rule.minNodeCount !== undefined
+      || rule.minDepth !== undefined
+      || rule.minBreadth !== undefined;
+    if (!needsPage) return patterns.length > 0;
+    if (!fp) return false;
+
+    if (rule.selectors?.length && !rule.selectors.some(selector => fp.matchedSelectors?.includes(selector))) {
+      return false;
+    }
+    if (rule.minNodeCount !== undefined && fp.nodeCount < rule.minNodeCount) return false;
+    if (rule.minDepth !== undefined && fp.depth < rule.minDepth) return false;
+    if (rule.minBreadth !== undefined && fp.breadth < rule.minBreadth) return false;
+    return true;
+  }
+
+  /**
+   * Category and page type of a URL, using its fingerprint when available
+   */
+  classify(url: string, fp?: DOMFingerprint): CategoryMatch {
+    let pathname: string;
+    try {
+      pathname = new URL(url).pathname || '/';
+    } catch {
+      pathname = url.split('?')[0];
+    }
+
+    const match = this.rules.find(compiled => this.matches(compiled, pathname, fp));
+    if (!match) return FALLBACK;
+    return { category: match.rule.category, pageType: match.rule.pageType || 'other' };
+  }
+
+  pageType(url: string, fp?: DOMFingerprint): PageType {
+    return this.classify(url, fp).pageType;
+  }
+}
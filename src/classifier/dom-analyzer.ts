@@ -1,18 +1,95 @@
 import { Page } from 'playwright';
-import { DOMFingerprint } from '../types.js';
+import { DOMFingerprint, VisualSimilarityConfig } from '../types.js';
+import { hashShingles } from './structure-vector.js';
+import { minHashSignature } from './minhash.js';
+import { perceptualHash } from './perceptual-hash.js';
 import logger from '../utils/logger.js';
 
+// Tokens per root-to-node path shingle
+const SHINGLE_SIZE = 3;
+// Elements walked for shingles; the rest of very large pages is ignored
+const MAX_SHINGLE_NODES = 5000;
+
 export class DOMAnalyzer {
+  private visual?: VisualSimilarityConfig;
+  private selectors: string[];
+
+  /**
+   * @param selectors CSS selectors to look for, recorded as matchedSelectors
+   */
+  constructor(visual?: VisualSimilarityConfig, selectors: string[] = []) {
+    this.visual = visual;
+    this.selectors = selectors;
+  }
+
+  /**
+   * Hash a low-res screenshot of the viewport. Failures only cost the
+   * visual component, so they are logged and ignored.
+   */
+  private async captureVisualHash(page: Page, url: string): Promise<string | undefined> {
+    if (!this.visual?.enabled) return undefined;
+    try {
+      const image = await page.screenshot({ type: 'jpeg', quality: 50, scale: 'css' });
+      return await perceptualHash(image, this.visual.algorithm);
+    } catch (error) {
+      logger.debug(`Failed to hash screenshot of ${url}: ${error instanceof Error ? error.message : String(error)}`);
+      return undefined;
+    }
+  }
+
   async analyze(page: Page, url: string): Promise<DOMFingerprint> {
     try {
-      const fingerprint = await page.evaluate(() => {
-        // Extract tag sequence (top-level hierarchy)
-        const tagSequence: string[] = [];
-        let current = document.body;
-        while (current && current.parentElement) {
-          tagSequence.unshift(current.tagName.toLowerCase());
-          current = current.parentElement;
-        }
+      const { shingles, ...fingerprint } = await page.evaluate(({ shingleSize, maxNodes, selectors }) => {
+        const IMPLICIT_LANDMARKS: Record<string, string> = {
+          header: 'banner',
+          nav: 'navigation',
+          main: 'main',
+          aside: 'complementary',
+          footer: 'contentinfo',
+          form: 'form',
+          search: 'search',
+        };
+        const SKIPPED = new Set(['script', 'style', 'noscript', 'template', 'link', 'meta']);
+
+        const landmarkOf = (el: Element): string | null =>
+          el.getAttribute('role')?.trim().toLowerCase() || IMPLICIT_LANDMARKS[el.tagName.toLowerCase()] || null;
+        const tokenOf = (el: Element): string => {
+          const landmark = landmarkOf(el);
+          return landmark ? `${el.tagName.toLowerCase()}@${landmark}` : el.tagName.toLowerCase();
+        };
+
+        // Fingerprint the main content; fall back to the whole body
+        const root = document.querySelector('main, [role="main"]') || document.body;
+
+        // Shingles: the last few tokens of every root-to-node path, prefixed
+        // with the nearest landmark so a list in the nav differs from one in main
+        const shingles: Record<string, number> = {};
+        let visited = 0;
+        const walk = (el: Element, path: string[], landmark: string) => {
+          if (visited >= maxNodes) return;
+          visited++;
+
+          const token = tokenOf(el);
+          const nodePath = [...path, token];
+          const nodeLandmark = landmarkOf(el) || landmark;
+          const shingle = `${landmark}|${nodePath.slice(-shingleSize).join('>')}`;
+          shingles[shingle] = (shingles[shingle] || 0) + 1;
+
+          // SVG internals are drawing details, not layout
+          if (token === 'svg') return;
+          for (const child of Array.from(el.children)) {
+            if (!SKIPPED.has(child.tagName.toLowerCase())) {
+              walk(child, nodePath, nodeLandmark);
+            }
+          }
+        };
+        walk(root, [], 'root');
+
+        // Top-level layout of the main content
+        const tagSequence = Array.from(root.children)
+          .filter(child => !SKIPPED.has(child.tagName.toLowerCase()))
+          .slice(0, 100)
+          .map(tokenOf);
 
         // Extract class patterns (frequent class names)
         const classElements = document.querySelectorAll('[class]');
@@ -45,18 +122,44 @@ export class DOMAnalyzer {
         // Total node count
         const nodeCount = document.querySelectorAll('*').length;
 
+        // hreflang alternates, used to find the same page on other locales
+        const alternates: Record<string, string> = {};
+        document.querySelectorAll('link[rel="alternate"][hreflang]').forEach(link => {
+          const hreflang = link.getAttribute('hreflang')?.trim().toLowerCase();
+          const href = (link as HTMLLinkElement).href;
+          if (hreflang && href) alternates[hreflang] = href;
+        });
+
+        // Selectors used by category rules; invalid ones simply never match
+        const matchedSelectors = selectors.filter(selector => {
+          try {
+            return document.querySelector(selector) !== null;
+          } catch {
+            return false;
+          }
+        });
+
         return {
           tagSequence,
           classPatterns: Array.from(classSet).slice(0, 50), // Limit to top 50
           depth: maxDepth,
           breadth,
           nodeCount,
+          alternates,
+          matchedSelectors,
+          shingles,
         };
-      });
+      }, { shingleSize: SHINGLE_SIZE, maxNodes: MAX_SHINGLE_NODES, selectors: this.selectors });
 
       return {
         url,
         ...fingerprint,
+        structureVector: hashShingles(shingles),
+        minHash: minHashSignature([
+          ...fingerprint.classPatterns.map(c => `class:${c}`),
+          ...Object.keys(shingles).map(s => `path:${s}`),
+        ]),
+        visualHash: await this.captureVisualHash(page, url),
       };
     } catch (error) {
       logger.error(`Failed to analyze DOM for ${url}:`, error);
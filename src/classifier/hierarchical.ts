@@ -0,0 +1,271 @@
+import { DendrogramNode } from '../types.js';
+
+// Used when no threshold is configured and there are too few pages to tune one
+export const DEFAULT_THRESHOLD = 0.75;
+
+// Pages used to score candidate thresholds, and thresholds tried at most
+const SILHOUETTE_SAMPLE = 200;
+const MAX_CANDIDATE_THRESHOLDS = 50;
+
+// [leaf index, leaf index, similarity]
+export type SimilarityPair = [number, number, number];
+
+interface Linkage {
+  sum: number;
+  count: number;
+}
+
+interface HeapEntry {
+  similarity: number;
+  a: number;
+  b: number;
+}
+
+/**
+ * Max-heap of candidate merges; ties go to the lowest node IDs
+ */
+class MergeHeap {
+  private items: HeapEntry[] = [];
+
+  get size(): number {
+    return this.items.length;
+  }
+
+  private before(x: HeapEntry, y: HeapEntry): boolean {
+    if (x.similarity !== y.similarity) return x.similarity > y.similarity;
+    return x.a !== y.a ? x.a < y.a : x.b < y.b;
+  }
+
+  push(entry: HeapEntry): void {
+    const items = this.items;
+    items.push(entry);
+    let i = items.length - 1;
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (!this.before(items[i], items[parent])) break;
+      [items[i], items[parent]] = [items[parent], items[i]];
+      i = parent;
+    }
+  }
+
+  pop(): HeapEntry | undefined {
+    const items = this.items;
+    const top = items[0];
+    const last = items.pop();
+    if (items.length > 0 && last) {
+      items[0] = last;
+      let i = 0;
+      for (;;) {
+        const left = 2 * i + 1;
+        const right = left + 1;
+        let first = i;
+        if (left < items.length && this.before(items[left], items[first])) first = left;
+        if (right < items.length && this.before(items[right], items[first])) first = right;
+        if (first === i) break;
+        [items[i], items[first]] = [items[first], items[i]];
+        i = first;
+      }
+    }
+    return top;
+  }
+}
+
+/**
+ * Average-linkage agglomerative clustering. The two most similar clusters
+ * are merged until no linked pair is left; the similarity of two clusters
+ * is the average over the page pairs between them. Only the given pairs
+ * count, so with every pair this is exact average linkage and with LSH
+ * candidate pairs it averages the pairs that were compared. Clusters with
+ * no pair between them are joined last at similarity 0, so there is always
+ * a single root.
+ */
+export function buildDendrogram(urls: string[], pairs: Iterable<SimilarityPair>): DendrogramNode | null {
+  const n = urls.length;
+  if (n === 0) return null;
+
+  const nodes = new Map<number, DendrogramNode>();
+  const links = new Map<number, Map<number, Linkage>>();
+  urls.forEach((url, i) => {
+    nodes.set(i, { id: i, size: 1, similarity: 1, url });
+    links.set(i, new Map());
+  });
+
+  const heap = new MergeHeap();
+  for (const [i, j, similarity] of pairs) {
+    if (i === j) continue;
+    links.get(i)!.set(j, { sum: similarity, count: 1 });
+    links.get(j)!.set(i, { sum: similarity, count: 1 });
+    heap.push({ similarity, a: Math.min(i, j), b: Math.max(i, j) });
+  }
+
+  let nextId = n;
+  const merge = (a: number, b: number, similarity: number): number => {
+    const left = nodes.get(a)!;
+    const right = nodes.get(b)!;
+    const id = nextId++;
+    // Sparse averages are not guaranteed to shrink towards the root; clamp
+    // so cutting the tree at a threshold stays consistent
+    nodes.set(id, {
+      id,
+      size: left.size + right.size,
+      similarity: Math.min(similarity, left.similarity, right.similarity),
+      children: [left, right],
+    });
+    nodes.delete(a);
+    nodes.delete(b);
+
+    const merged = new Map<number, Linkage>();
+    for (const source of [a, b]) {
+      for (const [k, link] of links.get(source)!) {
+        if (k === a || k === b) continue;
+        const existing = merged.get(k);
+        merged.set(k, existing ? { sum: existing.sum + link.sum, count: existing.count + link.count } : { ...link });
+        links.get(k)!.delete(source);
+      }
+    }
+    links.delete(a);
+    links.delete(b);
+    links.set(id, merged);
+    for (const [k, link] of merged) {
+      links.get(k)!.set(id, link);
+      heap.push({ similarity: link.sum / link.count, a: k, b: id });
+    }
+    return id;
+  };
+
+  while (heap.size > 0) {
+    const { similarity, a, b } = heap.pop()!;
+    // Entries of merged clusters or superseded averages are stale
+    const link = links.get(a)?.get(b);
+    if (!link || link.sum / link.count !== similarity) continue;
+    merge(a, b, similarity);
+  }
+
+  // Join the unlinked remainders in order of their first leaf
+  const firstLeaf = new Map(Array.from(nodes.values()).map(node => [node.id, Math.min(...leavesOf(node))]));
+  const roots = Array.from(firstLeaf.keys()).sort((x, y) => firstLeaf.get(x)! - firstLeaf.get(y)!);
+  let root = roots[0];
+  for (const next of roots.slice(1)) {
+    root = merge(root, next, 0);
+  }
+  return nodes.get(root)!;
+}
+
+/**
+ * Subtrees left after cutting every merge below the threshold
+ */
+export function cutDendrogram(root: DendrogramNode, threshold: number): DendrogramNode[] {
+  if (!root.children || root.similarity >= threshold) return [root];
+  return [...cutDendrogram(root.children[0], threshold), ...cutDendrogram(root.children[1], threshold)];
+}
+
+/**
+ * Leaf indices under a node
+ */
+export function leavesOf(node: DendrogramNode): number[] {
+  if (!node.children) return [node.id];
+  return [...leavesOf(node.children[0]), ...leavesOf(node.children[1])];
+}
+
+/**
+ * Mean silhouette score of a partition, using 1 - similarity as distance.
+ * Members of single-page clusters score 0. With a sample, only sampled
+ * pages are scored, each against the sampled members of every cluster
+ * (clusters with fewer than two sampled members add their first members as
+ * stand-ins). Each cluster's scored pages stand for all of its members, so
+ * small clusters split off between sampled pages still count.
+ */
+export function silhouetteScore(
+  similarity: (i: number, j: number) => number,
+  groups: number[][],
+  sample?: Set<number>
+): number {
+  const n = groups.reduce((sum, group) => sum + group.length, 0);
+  if (groups.length < 2 || groups.length >= n) return 0;
+
+  const references = groups.map(group => {
+    if (!sample) return group;
+    const sampled = group.filter(i => sample.has(i));
+    for (const i of group) {
+      if (sampled.length >= 2) break;
+      if (!sampled.includes(i)) sampled.push(i);
+    }
+    return sampled;
+  });
+
+  let total = 0;
+  groups.forEach((group, g) => {
+    if (group.length === 1) return;
+    const scored = sample ? references[g].filter(i => sample.has(i)) : group;
+    if (scored.length === 0) scored.push(references[g][0]);
+
+    let sum = 0;
+    for (const i of scored) {
+      const meanDistance = (members: number[]) => {
+        const others = members.filter(j => j !== i);
+        return others.reduce((sum, j) => sum + 1 - similarity(i, j), 0) / others.length;
+      };
+
+      const a = meanDistance(references[g]);
+      const b = Math.min(...references.filter((_, other) => other !== g).map(meanDistance));
+      sum += Math.max(a, b) === 0 ? 0 : (b - a) / Math.max(a, b);
+    }
+    total += (sum / scored.length) * group.length;
+  });
+  return total / n;
+}
+
+/**
+ * Suggest a cut threshold: try merge similarities from the tree as the
+ * threshold and keep the one whose partition has the best silhouette score.
+ * Large trees are scored on an evenly spaced sample of pages, and only
+ * partitions with fewer clusters than sampled pages are considered. At most
+ * MAX_CANDIDATE_THRESHOLDS heights are tried: the lowest ones, which give
+ * the coarse partitions page templates usually form, and an even spread of
+ * the rest.
+ */
+export function suggestThreshold(
+  root: DendrogramNode,
+  similarity: (i: number, j: number) => number
+): { threshold: number; silhouette: number } {
+  const heights = new Set<number>();
+  const collect = (node: DendrogramNode) => {
+    if (!node.children) return;
+    if (node.similarity > 0) heights.add(node.similarity);
+    node.children.forEach(collect);
+  };
+  collect(root);
+
+  const sorted = Array.from(heights).sort((a, b) => a - b);
+  let candidates = sorted;
+  if (sorted.length > MAX_CANDIDATE_THRESHOLDS) {
+    const lowest = Math.floor(MAX_CANDIDATE_THRESHOLDS / 2);
+    const rest = sorted.slice(lowest);
+    const step = rest.length / (MAX_CANDIDATE_THRESHOLDS - lowest);
+    candidates = [
+      ...sorted.slice(0, lowest),
+      ...Array.from({ length: MAX_CANDIDATE_THRESHOLDS - lowest }, (_, i) => rest[Math.floor(i * step)]),
+    ];
+  }
+  // Lowest first, so ties keep the coarser partition
+
+  const leaves = leavesOf(root).sort((a, b) => a - b);
+  const sampleStep = leaves.length / SILHOUETTE_SAMPLE;
+  const sample = leaves.length <= SILHOUETTE_SAMPLE
+    ? undefined
+    : new Set(Array.from({ length: SILHOUETTE_SAMPLE }, (_, i) => leaves[Math.floor(i * sampleStep)]));
+  const maxGroups = sample ? sample.size : leaves.length;
+
+  let best = { threshold: DEFAULT_THRESHOLD, silhouette: -Infinity };
+  for (const threshold of candidates) {
+    const groups = cutDendrogram(root, threshold).map(leavesOf);
+    if (groups.length < 2 || groups.length >= maxGroups) continue;
+
+    const silhouette = silhouetteScore(similarity, groups, sample);
+    if (silhouette > best.silhouette) {
+      best = { threshold, silhouette };
+    }
+  }
+
+  return best.silhouette === -Infinity ? { threshold: DEFAULT_THRESHOLD, silhouette: 0 } : best;
+}
@@ -0,0 +1,103 @@
+import { DOMFingerprint } from '../types.js';
+import { fnv1a } from './structure-vector.js';
+
+// Hash functions per signature; LSH bands split these into rows
+export const MINHASH_SIZE = 128;
+
+/**
+ * Murmur3 finalizer, used to derive independent hash functions from one
+ * feature hash and a seed
+ */
+function mix(hash: number, seed: number): number {
+  let h = (hash ^ Math.imul(seed, 0x9e3779b1)) >>> 0;
+  h ^= h >>> 16;
+  h = Math.imul(h, 0x85ebca6b);
+  h ^= h >>> 13;
+  h = Math.imul(h, 0xc2b2ae35);
+  h ^= h >>> 16;
+  return h >>> 0;
+}
+
+/**
+ * MinHash signature of a feature set: for each hash function, the smallest
+ * hash of any feature. Two signatures agree in a position with probability
+ * equal to the Jaccard similarity of the sets.
+ */
+export function minHashSignature(features: Iterable<string>, size: number = MINHASH_SIZE): number[] {
+  const signature = new Array<number>(size).fill(0xffffffff);
+  for (const feature of features) {
+    const base = fnv1a(feature);
+    for (let i = 0; i < size; i++) {
+      const h = mix(base, i + 1);
+      if (h < signature[i]) signature[i] = h;
+    }
+  }
+  return signature;
+}
+
+/**
+ * Features for fingerprints analyzed before signatures were recorded:
+ * class patterns and 3-tag shingles of the top-level tag sequence
+ */
+function fallbackFeatures(fp: DOMFingerprint): string[] {
+  const features = fp.classPatterns.map(c => `class:${c}`);
+  for (let i = 0; i + 3 <= fp.tagSequence.length; i++) {
+    features.push(`tags:${fp.tagSequence.slice(i, i + 3).join('>')}`);
+  }
+  if (features.length === 0) features.push(`tags:${fp.tagSequence.join('>')}`);
+  return features;
+}
+
+export function signatureOf(fp: DOMFingerprint): number[] {
+  return fp.minHash && fp.minHash.length === MINHASH_SIZE ? fp.minHash : minHashSignature(fallbackFeatures(fp));
+}
+
+export function estimateJaccard(a: number[], b: number[]): number {
+  const length = Math.min(a.length, b.length);
+  if (length === 0) return 0;
+  let equal = 0;
+  for (let i = 0; i < length; i++) {
+    if (a[i] === b[i]) equal++;
+  }
+  return equal / length;
+}
+
+/**
+ * Candidate pairs from locality-sensitive hashing: signatures are cut into
+ * bands and items sharing any band land in the same bucket. More bands find
+ * less similar pairs. Buckets larger than maxBucketSize are not expanded
+ * into every pair; each member is paired with the next maxBucketSize
+ * members in a per-band order instead, which keeps the bucket connected.
+ */
+export function lshCandidatePairs(signatures: number[][], bands: number, maxBucketSize: number): Array<[number, number]> {
+  const rows = Math.max(1, Math.floor(MINHASH_SIZE / bands));
+  const pairs = new Set<number>();
+  const n = signatures.length;
+
+  for (let band = 0; band < bands && (band + 1) * rows <= MINHASH_SIZE; band++) {
+    const buckets = new Map<string, number[]>();
+    signatures.forEach((signature, i) => {
+      const key = signature.slice(band * rows, (band + 1) * rows).join(',');
+      const bucket = buckets.get(key);
+      if (bucket) bucket.push(i);
+      else buckets.set(key, [i]);
+    });
+
+    for (const bucket of buckets.values()) {
+      // Shuffle large buckets differently per band so the windows overlap
+      if (bucket.length > maxBucketSize + 1) {
+        bucket.sort((x, y) => mix(x, band + 1) - mix(y, band + 1) || x - y);
+      }
+      for (let x = 0; x < bucket.length; x++) {
+        const last = Math.min(bucket.length, x + 1 + maxBucketSize);
+        for (let y = x + 1; y < last; y++) {
+          const i = Math.min(bucket[x], bucket[y]);
+          const j = Math.max(bucket[x], bucket[y]);
+          pairs.add(i * n + j);
+        }
+      }
+    }
+  }
+
+  return Array.from(pairs, key => [Math.floor(key / n), key % n] as [number, number]);
+}
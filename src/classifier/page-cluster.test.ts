@@ -0,0 +1,69 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { PageClusterEngine } from './page-cluster.js';
+import { CategoryRuleEngine } from './category-rules.js';
+import { hashShingles } from './structure-vector.js';
+import { minHashSignature } from './minhash.js';
+import { DOMFingerprint } from '../types.js';
+
+const TEMPLATES = 10;
+
+/**
+ * Deterministic pseudo-random numbers so runs are reproducible
+ */
+function seededRandom(seed: number): () => number {
+  let state = seed;
+  return () => {
+    state = (Math.imul(state, 1103515245) + 12345) >>> 0;
+    return state / 0x100000000;
+  };
+}
+
+/**
+ * Fingerprint of a page built from one of TEMPLATES layouts, with some
+ * shingles and classes dropped and a little unrelated markup added
+ */
+function syntheticFingerprint(template: number, index: number, random: () => number): DOMFingerprint {
+  const shingles: Record<string, number> = {};
+  for (let s = 0; s < 80; s++) {
+    if (random() > 0.1) shingles[`t${template}/s${s}`] = 1 + Math.floor(random() * 3);
+  }
+  for (let s = 0; s < 5; s++) {
+    shingles[`noise/${Math.floor(random() * 1000)}`] = 1;
+  }
+  const classPatterns = Array.from({ length: 20 }, (_, c) => `t${template}-c${c}`).filter(() => random() > 0.1);
+
+  return {
+    url: `https://example.com/t${template}/${index}`,
+    tagSequence: Array.from({ length: 12 }, (_, i) => `tag${(template * 7 + i) % 15}`),
+    classPatterns,
+    depth: 8 + template + Math.floor(random() * 2),
+    breadth: 20 + template * 5 + Math.floor(random() * 4),
+    nodeCount: 400 + template * 80 + Math.floor(random() * 40),
+    structureVector: hashShingles(shingles),
+    minHash: minHashSignature([
+      ...classPatterns.map(c => `class:${c}`),
+      ...Object.keys(shingles).map(s => `path:${s}`),
+    ]),
+  };
+}
+
+test('auto-tuned threshold finds the templates of a large LSH scan', () => {
+  const random = seededRandom(1);
+  const fingerprints = Array.from({ length: 400 }, (_, i) => syntheticFingerprint(i % TEMPLATES, i, random));
+  const engine = new PageClusterEngine(undefined, new CategoryRuleEngine([]), 0, {
+    minPages: 300,
+    bands: 32,
+    maxBucketSize: 50,
+  });
+
+  const { clusters, tree } = engine.clusterWithTree(fingerprints);
+
+  assert.equal(tree.suggested, true);
+  assert.equal(clusters.length, TEMPLATES);
+  for (const cluster of clusters) {
+    const templates = new Set(cluster.members.map(m => new URL(m.url).pathname.split('/')[1]));
+    assert.equal(templates.size, 1, `cluster mixes templates ${Array.from(templates).join(', ')}`);
+    assert.equal(cluster.members.length, fingerprints.length / TEMPLATES);
+  }
+});
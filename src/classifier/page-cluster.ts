@@ -1,36 +1,31 @@
-import { DOMFingerprint, PageCluster } from '../types.js';
+import { ClusterSignature, ClusterTree, DOMFingerprint, LshConfig, PageCluster, UrlTemplate, UrlTemplateSummary } from '../types.js';
 import { SimilarityCalculator } from './similarity-calculator.js';
+import { CategoryRuleEngine } from './category-rules.js';
+import { inferUrlTemplates } from './url-template.js';
+import { buildDendrogram, cutDendrogram, DEFAULT_THRESHOLD, leavesOf, SimilarityPair, suggestThreshold } from './hierarchical.js';
+import { lshCandidatePairs, signatureOf } from './minhash.js';
 import logger from '../utils/logger.js';
 
+// Members compared when picking the representative of a large cluster
+const REPRESENTATIVE_SAMPLE = 50;
+
 export class PageClusterEngine {
   private calculator: SimilarityCalculator;
-  private threshold: number;
-
-  constructor(threshold: number) {
-    this.calculator = new SimilarityCalculator();
-    this.threshold = threshold;
-  }
+  private threshold?: number;
+  private rules: CategoryRuleEngine;
+  private lsh?: LshConfig;
 
   /**
-   * Infer category name from fingerprint
+   * @param threshold Dendrogram cut; tuned per scan when undefined
+   * @param rules Names new clusters after their representative
+   * @param visualWeight Weight of screenshot hashes in page similarity
+   * @param lsh Compare only LSH candidate pairs on large scans
    */
-  private inferCategory(fp: DOMFingerprint): string {
-    const url = fp.url.toLowerCase();
-
-    // Pattern-based category inference
-    if (url === '/' || url.endsWith('/')) return 'homepage';
-    if (url.includes('/detail/') || url.includes('/item/')) return 'detail_page';
-    if (url.includes('/list') || url.includes('/search')) return 'list_page';
-    if (url.includes('/about') || url.includes('/company')) return 'about_page';
-    if (url.includes('/contact')) return 'contact_page';
-    if (url.includes('/help') || url.includes('/faq')) return 'help_page';
-    if (url.includes('/news') || url.includes('/blog')) return 'news_page';
-
-    // Structure-based inference
-    if (fp.nodeCount > 1000 && fp.depth > 10) return 'complex_page';
-    if (fp.breadth > 20) return 'content_heavy';
-
-    return 'other';
+  constructor(threshold: number | undefined, rules: CategoryRuleEngine, visualWeight: number = 0, lsh?: LshConfig) {
+    this.calculator = new SimilarityCalculator(visualWeight);
+    this.threshold = threshold;
+    this.rules = rules;
+    this.lsh = lsh;
   }
 
   /**
@@ -41,68 +36,223 @@ export class PageClusterEngine {
   }
 
   /**
-   * Find the most representative fingerprint in a cluster
+   * Signature to persist for a cluster so later scans can recognize it
    */
-  private findRepresentative(members: DOMFingerprint[]): DOMFingerprint {
-    if (members.length === 1) return members[0];
+  toSignature(cluster: PageCluster): ClusterSignature {
+    return {
+      id: cluster.id,
+      category: cluster.category,
+      representative: cluster.representative,
+      templates: cluster.templates || [],
+    };
+  }
 
-    // Find the one with highest average similarity to others
-    let bestMember = members[0];
-    let bestScore = -1;
+  /**
+   * Pre-group URLs by inferred URL template and choose which ones to visit
+   * for fingerprinting. Each template gets up to perTemplate fingerprints,
+   * counting pages that already have one, and the most-visited members
+   * (by traffic weight) are picked first. Picks go round-robin from the
+   * largest template, so the maxVisits cap still reaches as many templates
+   * as possible. Existing fingerprints are tagged with their template.
+   */
+  planFingerprinting(
+    urls: string[],
+    fingerprinted: DOMFingerprint[],
+    perTemplate: number,
+    maxVisits: number,
+    minVariants?: number,
+    weights: Map<string, number> = new Map()
+  ): { templates: UrlTemplate[]; templateOf: Map<string, string>; toVisit: string[] } {
+    const templates = inferUrlTemplates([...fingerprinted.map(fp => fp.url), ...urls], minVariants);
+    const templateOf = new Map<string, string>();
+    templates.forEach(t => t.urls.forEach(url => templateOf.set(url, t.template)));
+    fingerprinted.forEach(fp => fp.urlTemplate = templateOf.get(fp.url));
 
-    for (const member of members) {
-      const others = members.filter(m => m.url !== member.url);
-      const avgSim = this.calculator.calculateAverageSimilarity(member, others);
-      if (avgSim > bestScore) {
-        bestScore = avgSim;
-        bestMember = member;
+    const done = new Set(fingerprinted.map(fp => fp.url));
+    const weightOf = (url: string) => weights.get(url) || 0;
+    const queues = templates.map(t => {
+      const covered = t.urls.filter(url => done.has(url));
+      const queue = t.urls.filter(url => !done.has(url)).sort((a, b) => weightOf(b) - weightOf(a));
+      // The most-visited page is always fingerprinted, even when crawled pages fill the template
+      const topCovered = Math.max(0, ...covered.map(weightOf));
+      const slots = Math.max(perTemplate - covered.length, queue.length > 0 && weightOf(queue[0]) > topCovered ? 1 : 0);
+      return queue.slice(0, slots);
+    });
+
+    const toVisit: string[] = [];
+    const rounds = Math.max(0, ...queues.map(q => q.length));
+    for (let round = 0; round < rounds && toVisit.length < maxVisits; round++) {
+      for (const queue of queues) {
+        if (round < queue.length && toVisit.length < maxVisits) {
+          toVisit.push(queue[round]);
+        }
       }
     }
 
-    return bestMember;
+    logger.info(`Inferred ${templates.length} URL templates from ${templateOf.size} URLs, visiting ${toVisit.length}`);
+    return { templates, templateOf, toVisit };
   }
 
   /**
-   * Cluster pages by structural similarity using agglomerative hierarchical clustering
+   * Per-template URL counts and how many members were fingerprinted
    */
-  cluster(fingerprints: DOMFingerprint[]): PageCluster[] {
-    const clusters: PageCluster[] = [];
+  summarizeTemplates(templates: UrlTemplate[], fingerprints: DOMFingerprint[]): UrlTemplateSummary[] {
+    const fingerprinted = new Set(fingerprints.map(fp => fp.url));
+    return templates.map(t => ({
+      template: t.template,
+      urlCount: t.urls.length,
+      fingerprinted: t.urls.filter(url => fingerprinted.has(url)).length,
+      examples: t.urls.slice(0, 3),
+    }));
+  }
 
-    logger.info(`Clustering ${fingerprints.length} pages with threshold ${this.threshold}`);
+  /**
+   * Similarities to build the dendrogram from: every pair, or on scans of
+   * lsh.minPages pages and more only the LSH candidate pairs. Pairs are
+   * computed once and cached for the representative and threshold search.
+   */
+  private pairSimilarities(fingerprints: DOMFingerprint[]): {
+    pairs: SimilarityPair[];
+    similarityOf: (i: number, j: number) => number;
+  } {
+    const n = fingerprints.length;
+    const cache = new Map<number, number>();
+    const similarityOf = (i: number, j: number): number => {
+      if (i === j) return 1;
+      const key = i < j ? i * n + j : j * n + i;
+      let value = cache.get(key);
+      if (value === undefined) {
+        value = this.calculator.calculate(fingerprints[i], fingerprints[j]);
+        cache.set(key, value);
+      }
+      return value;
+    };
 
-    for (const fp of fingerprints) {
-      let matchedCluster: PageCluster | null = null;
+    let candidates: Array<[number, number]>;
+    if (this.lsh && n >= this.lsh.minPages) {
+      candidates = lshCandidatePairs(fingerprints.map(signatureOf), this.lsh.bands, this.lsh.maxBucketSize);
+      const share = n > 1 ? (candidates.length / (n * (n - 1) / 2)) * 100 : 0;
+      logger.info(`LSH found ${candidates.length} candidate pairs for ${n} pages (${share.toFixed(1)}% of all pairs)`);
+    } else {
+      candidates = [];
+      for (let i = 0; i < n; i++) {
+        for (let j = i + 1; j < n; j++) candidates.push([i, j]);
+      }
+    }
 
-      // Try to add to existing cluster
-      for (const cluster of clusters) {
-        const avgSimilarity = this.calculator.calculateAverageSimilarity(
-          fp,
-          cluster.members
-        );
+    return {
+      pairs: candidates.map(([i, j]) => [i, j, similarityOf(i, j)] as SimilarityPair),
+      similarityOf,
+    };
+  }
 
-        if (avgSimilarity >= this.threshold) {
-          matchedCluster = cluster;
-          break;
-        }
+  /**
+   * The member with the highest average similarity to the others. Large
+   * clusters are scored on an evenly spaced sample of their members.
+   */
+  private representativeOf(indices: number[], similarityOf: (i: number, j: number) => number): number {
+    const step = Math.max(1, indices.length / REPRESENTATIVE_SAMPLE);
+    const sample = indices.length <= REPRESENTATIVE_SAMPLE
+      ? indices
+      : Array.from({ length: REPRESENTATIVE_SAMPLE }, (_, i) => indices[Math.floor(i * step)]);
+
+    let best = sample[0];
+    let bestScore = -1;
+    for (const i of sample) {
+      const score = sample.reduce((sum, j) => sum + (i === j ? 0 : similarityOf(i, j)), 0);
+      if (score > bestScore) {
+        bestScore = score;
+        best = i;
       }
+    }
+    return best;
+  }
 
-      if (matchedCluster) {
-        matchedCluster.members.push(fp);
-        // Update representative after adding new member
-        matchedCluster.representative = this.findRepresentative(matchedCluster.members);
-      } else {
-        // Create new cluster
-        const category = this.inferCategory(fp);
-        clusters.push({
-          id: this.generateId(),
-          category,
-          members: [fp],
-          representative: fp,
-        });
+  /**
+   * Match new clusters to clusters from earlier scans. A pair qualifies when
+   * the representatives reach the threshold; pairs sharing a URL template
+   * are matched first, then the most similar. Each known cluster is reused once.
+   */
+  private matchKnown(clusters: PageCluster[], known: ClusterSignature[], threshold: number): Map<PageCluster, ClusterSignature> {
+    const pairs: Array<{ cluster: PageCluster; signature: ClusterSignature; sharesTemplate: boolean; score: number }> = [];
+    for (const cluster of clusters) {
+      for (const signature of known) {
+        const score = this.calculator.calculate(cluster.representative, signature.representative);
+        if (score < threshold) continue;
+        const sharesTemplate = (cluster.templates || []).some(t => signature.templates.includes(t));
+        pairs.push({ cluster, signature, sharesTemplate, score });
       }
     }
+    pairs.sort((a, b) => Number(b.sharesTemplate) - Number(a.sharesTemplate) || b.score - a.score);
+
+    const matched = new Map<PageCluster, ClusterSignature>();
+    const used = new Set<string>();
+    for (const { cluster, signature } of pairs) {
+      if (matched.has(cluster) || used.has(signature.id)) continue;
+      matched.set(cluster, signature);
+      used.add(signature.id);
+    }
+    return matched;
+  }
+
+  /**
+   * Cluster pages with average-linkage agglomerative clustering and cut the
+   * dendrogram at the configured threshold, or at the threshold with the best
+   * silhouette score when none is configured. Clusters matching one from an
+   * earlier scan (see matchKnown) keep its ID and category; new ones are
+   * named by the category rules. The returned tree marks each cut subtree
+   * with the ID of its cluster.
+   */
+  clusterWithTree(fingerprints: DOMFingerprint[], known: ClusterSignature[] = []): { clusters: PageCluster[]; tree: ClusterTree } {
+    const { pairs, similarityOf } = this.pairSimilarities(fingerprints);
+    const root = buildDendrogram(fingerprints.map(fp => fp.url), pairs);
 
-    logger.info(`Created ${clusters.length} clusters`);
-    return clusters;
+    let threshold = this.threshold ?? DEFAULT_THRESHOLD;
+    let silhouette: number | undefined;
+    if (this.threshold === undefined && root) {
+      ({ threshold, silhouette } = suggestThreshold(root, similarityOf));
+      logger.info(`Suggested similarity threshold ${threshold.toFixed(3)} (silhouette ${silhouette.toFixed(3)})`);
+    }
+
+    logger.info(`Clustering ${fingerprints.length} pages with threshold ${threshold} (${known.length} known clusters)`);
+
+    // Clusters and their members keep the input order of the pages
+    const groups = (root ? cutDendrogram(root, threshold) : [])
+      .map(node => ({ node, indices: leavesOf(node).sort((a, b) => a - b) }))
+      .sort((a, b) => a.indices[0] - b.indices[0]);
+    const clusters: PageCluster[] = groups.map(({ indices }) => {
+      const representative = fingerprints[this.representativeOf(indices, similarityOf)];
+      const members = indices.map(i => fingerprints[i]);
+      const templates = Array.from(new Set(members.map(m => m.urlTemplate).filter((t): t is string => !!t)));
+
+      return {
+        id: '',
+        category: '',
+        members,
+        representative,
+        ...(templates.length > 0 ? { templates } : {}),
+      };
+    });
+
+    const matched = this.matchKnown(clusters, known, threshold);
+    clusters.forEach((cluster, i) => {
+      const signature = matched.get(cluster);
+      cluster.id = signature?.id || this.generateId();
+      cluster.category = signature?.category || this.rules.classify(cluster.representative.url, cluster.representative).category;
+      groups[i].node.clusterId = cluster.id;
+    });
+
+    logger.info(`Created ${clusters.length} clusters (${matched.size} matched earlier scans)`);
+    return {
+      clusters,
+      tree: { threshold, suggested: this.threshold === undefined, silhouette, root },
+    };
+  }
+
+  /**
+   * Cluster pages by structural similarity; see clusterWithTree
+   */
+  cluster(fingerprints: DOMFingerprint[], known: ClusterSignature[] = []): PageCluster[] {
+    return this.clusterWithTree(fingerprints, known).clusters;
   }
 }
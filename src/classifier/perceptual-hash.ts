@@ -0,0 +1,98 @@
+import sharp from 'sharp';
+import { PerceptualHashAlgorithm } from '../types.js';
+
+// Both algorithms produce 64-bit hashes
+const HASH_BITS = 64;
+
+function bitsToHex(bits: boolean[]): string {
+  let hex = '';
+  for (let i = 0; i < bits.length; i += 4) {
+    const nibble = (bits[i] ? 8 : 0) | (bits[i + 1] ? 4 : 0) | (bits[i + 2] ? 2 : 0) | (bits[i + 3] ? 1 : 0);
+    hex += nibble.toString(16);
+  }
+  return hex;
+}
+
+async function grayscalePixels(image: Buffer, width: number, height: number): Promise<Buffer> {
+  return sharp(image)
+    .grayscale()
+    .resize(width, height, { fit: 'fill' })
+    .raw()
+    .toBuffer();
+}
+
+/**
+ * Difference hash: one bit per horizontally adjacent pixel pair of a 9x8
+ * thumbnail, set when brightness increases to the right
+ */
+async function dHash(image: Buffer): Promise<boolean[]> {
+  const pixels = await grayscalePixels(image, 9, 8);
+  const bits: boolean[] = [];
+  for (let y = 0; y < 8; y++) {
+    for (let x = 0; x < 8; x++) {
+      bits.push(pixels[y * 9 + x] < pixels[y * 9 + x + 1]);
+    }
+  }
+  return bits;
+}
+
+/**
+ * DCT hash: the 63 AC terms of the low-frequency 8x8 DCT block of a 32x32
+ * thumbnail, compared against their median. Bit 0, the place of the DC
+ * term, is always 0. Slower than dHash but more tolerant of small shifts
+ * and color changes.
+ */
+async function pHash(image: Buffer): Promise<boolean[]> {
+  const size = 32;
+  const pixels = await grayscalePixels(image, size, size);
+
+  const coefficients: number[] = [];
+  for (let v = 0; v < 8; v++) {
+    for (let u = 0; u < 8; u++) {
+      let sum = 0;
+      for (let y = 0; y < size; y++) {
+        for (let x = 0; x < size; x++) {
+          sum += pixels[y * size + x]
+            * Math.cos(((2 * x + 1) * u * Math.PI) / (2 * size))
+            * Math.cos(((2 * y + 1) * v * Math.PI) / (2 * size));
+        }
+      }
+      coefficients.push(sum);
+    }
+  }
+
+  // The DC term only reflects overall brightness
+  const ac = coefficients.slice(1);
+  const median = ac.slice().sort((a, b) => a - b)[31];
+  return [false, ...ac.map(c => c > median)];
+}
+
+/**
+ * Perceptual hash of an image, formatted as "<algorithm>:<16 hex digits>"
+ */
+export async function perceptualHash(image: Buffer, algorithm: PerceptualHashAlgorithm = 'dhash'): Promise<string> {
+  const bits = algorithm === 'phash' ? await pHash(image) : await dHash(image);
+  return `${algorithm}:${bitsToHex(bits)}`;
+}
+
+/**
+ * Similarity of two perceptual hashes (1 - normalized Hamming distance).
+ * Returns undefined when the hashes were made with different algorithms.
+ */
+export function hashSimilarity(a: string, b: string): number | undefined {
+  const [algorithmA, hexA] = a.split(':');
+  const [algorithmB, hexB] = b.split(':');
+  if (algorithmA !== algorithmB || !hexA || !hexB || hexA.length !== hexB.length) return undefined;
+
+  // The constant DC bit of DCT hashes carries no information
+  const bits = algorithmA === 'phash' ? HASH_BITS - 1 : HASH_BITS;
+  let distance = 0;
+  for (let i = 0; i < hexA.length; i++) {
+    let diff = parseInt(hexA[i], 16) ^ parseInt(hexB[i], 16);
+    while (diff) {
+      distance += diff & 1;
+      diff >>= 1;
+    }
+  }
+  return 1 - distance / bits;
+}
@@ -5,8 +5,8 @@ import logger from '../utils/logger.js';
 export class Sampler {
   private calculator: SimilarityCalculator;
 
-  constructor() {
-    this.calculator = new SimilarityCalculator();
+  constructor(visualWeight: number = 0) {
+    this.calculator = new SimilarityCalculator(visualWeight);
   }
 
   /**
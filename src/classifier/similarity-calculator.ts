@@ -1,6 +1,18 @@
 import { DOMFingerprint } from '../types.js';
+import { cosineSimilarity } from './structure-vector.js';
+import { hashSimilarity } from './perceptual-hash.js';
 
 export class SimilarityCalculator {
+  private visualWeight: number;
+
+  /**
+   * @param visualWeight Share of the score taken by screenshot hashes when
+   *   both fingerprints have one (0 disables the visual component)
+   */
+  constructor(visualWeight: number = 0) {
+    this.visualWeight = Math.min(Math.max(visualWeight, 0), 1);
+  }
+
   /**
    * Calculate Levenshtein distance between two strings
    */
@@ -82,15 +94,34 @@ export class SimilarityCalculator {
     return depthSim * 0.3 + breadthSim * 0.2 + nodeSim * 0.2 + classSim * 0.3;
   }
 
+  /**
+   * Compare layout: structure vectors when both fingerprints have one of the
+   * same size, otherwise the top-level tag sequences
+   */
+  private layoutSimilarity(fp1: DOMFingerprint, fp2: DOMFingerprint): number {
+    if (fp1.structureVector && fp2.structureVector && fp1.structureVector.length === fp2.structureVector.length) {
+      return cosineSimilarity(fp1.structureVector, fp2.structureVector);
+    }
+    return this.tagSequenceSimilarity(fp1, fp2);
+  }
+
   /**
    * Calculate overall similarity between two fingerprints
    */
   calculate(fp1: DOMFingerprint, fp2: DOMFingerprint): number {
-    const tagSim = this.tagSequenceSimilarity(fp1, fp2);
+    const tagSim = this.layoutSimilarity(fp1, fp2);
     const structSim = this.structuralSimilarity(fp1, fp2);
 
-    // Weighted combination: 60% tag sequence, 40% structure
-    return tagSim * 0.6 + structSim * 0.4;
+    // Weighted combination: 60% layout, 40% structure
+    const domSim = tagSim * 0.6 + structSim * 0.4;
+
+    if (this.visualWeight > 0 && fp1.visualHash && fp2.visualHash) {
+      const visualSim = hashSimilarity(fp1.visualHash, fp2.visualHash);
+      if (visualSim !== undefined) {
+        return domSim * (1 - this.visualWeight) + visualSim * this.visualWeight;
+      }
+    }
+    return domSim;
   }
 
   /**
@@ -1,31 +1,53 @@
-import { PageCluster, DOMFingerprint } from '../types.js';
+import { PageCluster, DOMFingerprint, PageType } from '../types.js';
 import { SimilarityCalculator } from './similarity-calculator.js';
-import { identifyPageType } from '../utils/page-utils.js';
+import { CategoryRuleEngine } from './category-rules.js';
 import logger from '../utils/logger.js';
 
 interface TypedFingerprint extends DOMFingerprint {
-  pageType: 'homepage' | 'detail' | 'list' | 'other';
+  pageType: PageType;
 }
 
 export class SmartSampler {
   private calculator: SimilarityCalculator;
+  private trafficShare: number;
 
-  constructor() {
-    this.calculator = new SimilarityCalculator();
+  /**
+   * @param trafficShare Share of each cluster's samples reserved for its
+   *   most-visited members when traffic weights are given
+   * @param visualWeight Weight of screenshot hashes when comparing members
+   */
+  constructor(trafficShare: number = 0.5, visualWeight: number = 0) {
+    this.calculator = new SimilarityCalculator(visualWeight);
+    this.trafficShare = trafficShare;
   }
 
   /**
-   * Select diverse pages from a cluster using k-means++ style selection
+   * Select diverse pages from a cluster using k-means++ style selection.
+   * With traffic weights, the most-visited members are picked first (at
+   * least one) and diversity fills the remaining slots.
    */
-  private selectDiversePages(members: TypedFingerprint[], maxSamples: number): TypedFingerprint[] {
+  private selectDiversePages(
+    members: TypedFingerprint[],
+    maxSamples: number,
+    weights: Map<string, number>
+  ): TypedFingerprint[] {
     if (members.length <= maxSamples) {
       return members;
     }
 
     const selected: TypedFingerprint[] = [];
 
-    // First selection: the cluster representative (centroid-like)
-    selected.push(members[0]);
+    const trafficSlots = Math.max(1, Math.round(maxSamples * this.trafficShare));
+    members
+      .filter(m => (weights.get(m.url) || 0) > 0)
+      .sort((a, b) => weights.get(b.url)! - weights.get(a.url)!)
+      .slice(0, Math.min(trafficSlots, maxSamples))
+      .forEach(m => selected.push(m));
+
+    // Without traffic data: the cluster representative (centroid-like)
+    if (selected.length === 0) {
+      selected.push(members[0]);
+    }
 
     // Subsequent selections: choose the most diverse from remaining
     while (selected.length < maxSamples) {
@@ -60,12 +82,14 @@ export class SmartSampler {
   }
 
   /**
-   * Sample pages ensuring detail and list pages are included
+   * Sample pages ensuring detail and list pages are included. weights maps
+   * page URLs to traffic (e.g. page views from an imported analytics CSV).
    */
   sampleFromClusters(
     clusters: PageCluster[],
     maxPagesPerCategory: number,
-    patterns: any
+    rules: CategoryRuleEngine,
+    weights: Map<string, number> = new Map()
   ): Map<string, TypedFingerprint[]> {
     const sampled = new Map<string, TypedFingerprint[]>();
 
@@ -75,7 +99,7 @@ export class SmartSampler {
     for (const cluster of clusters) {
       const typedMembers: TypedFingerprint[] = cluster.members.map(fp => ({
         ...fp,
-        pageType: identifyPageType(fp.url, patterns)
+        pageType: rules.pageType(fp.url, fp)
       }));
 
       typedClusters.push({
@@ -87,7 +111,7 @@ export class SmartSampler {
 
     // Sample from each cluster
     for (const cluster of typedClusters) {
-      const selected = this.selectDiversePages(cluster.members, maxPagesPerCategory);
+      const selected = this.selectDiversePages(cluster.members, maxPagesPerCategory, weights);
       sampled.set(cluster.id, selected);
 
       logger.info(
@@ -96,7 +120,7 @@ export class SmartSampler {
     }
 
     // Ensure at least one detail page and one list page are included
-    this.ensurePageTypes(sampled, typedClusters, patterns);
+    this.ensurePageTypes(sampled, typedClusters);
 
     return sampled;
   }
@@ -106,8 +130,7 @@ export class SmartSampler {
    */
   private ensurePageTypes(
     sampled: Map<string, TypedFingerprint[]>,
-    clusters: Array<{ id: string; category: string; members: TypedFingerprint[] }>,
-    patterns: any
+    clusters: Array<{ id: string; category: string; members: TypedFingerprint[] }>
   ): void {
     const allSampled = Array.from(sampled.values()).flat();
 
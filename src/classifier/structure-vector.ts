@@ -0,0 +1,65 @@
+// Size of the hashed structure vector stored on DOMFingerprint
+export const STRUCTURE_DIMENSIONS = 256;
+
+/**
+ * 32-bit FNV-1a hash
+ */
+export function fnv1a(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Murmur3 finalizer; spreads FNV-1a hashes of near-identical strings so
+ * their bucket and sign are independent
+ */
+function fmix(hash: number): number {
+  let h = hash;
+  h ^= h >>> 16;
+  h = Math.imul(h, 0x85ebca6b);
+  h ^= h >>> 13;
+  h = Math.imul(h, 0xc2b2ae35);
+  h ^= h >>> 16;
+  return h >>> 0;
+}
+
+/**
+ * Hash shingle counts into a fixed-size, L2-normalized vector. Counts are
+ * log-damped so long repeated lists (car cards, table rows) do not drown
+ * out the rest of the layout. The top hash bit picks the sign of each
+ * contribution, so colliding shingles cancel out on average and pages
+ * without shared shingles score near 0.
+ */
+export function hashShingles(counts: Record<string, number>, dimensions: number = STRUCTURE_DIMENSIONS): number[] {
+  const vector = new Array<number>(dimensions).fill(0);
+  for (const [shingle, count] of Object.entries(counts)) {
+    const hash = fmix(fnv1a(shingle));
+    const sign = hash & 0x80000000 ? -1 : 1;
+    vector[hash % dimensions] += sign * (1 + Math.log(count));
+  }
+
+  const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0));
+  return norm === 0 ? vector : vector.map(v => Math.round((v / norm) * 1000) / 1000);
+}
+
+/**
+ * Cosine similarity of two structure vectors, clamped to [0, 1]; 0 when
+ * either is empty
+ */
+export function cosineSimilarity(a: number[], b: number[]): number {
+  const length = Math.min(a.length, b.length);
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  if (normA === 0 || normB === 0) return 0;
+  return Math.min(1, Math.max(0, dot / Math.sqrt(normA * normB)));
+}
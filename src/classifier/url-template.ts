@@ -0,0 +1,89 @@
+import { UrlTemplate } from '../types.js';
+
+interface Segment {
+  // Part that may become {slug}, e.g. "toyota-camry" in "toyota-camry-123.html"
+  literal: string;
+  // Fixed remainder, e.g. "-{id}.html"
+  suffix: string;
+}
+
+const EXTENSION = /\.[a-z0-9]{2,5}$/i;
+const HASH = /^([0-9a-f]{16,}|[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12})$/i;
+const TRAILING_ID = /^(.*[a-z].*?)([-_])(\d+)$/i;
+
+/**
+ * Split a path segment into a literal part and a suffix made of ID
+ * placeholders and the file extension
+ */
+function tokenizeSegment(segment: string): Segment {
+  const extension = segment.match(EXTENSION)?.[0] || '';
+  const base = extension ? segment.slice(0, -extension.length) : segment;
+
+  if (/^\d+$/.test(base)) return { literal: '', suffix: `{id}${extension}` };
+  if (HASH.test(base)) return { literal: '', suffix: `{hash}${extension}` };
+
+  const withId = base.match(TRAILING_ID);
+  if (withId) return { literal: withId[1], suffix: `${withId[2]}{id}${extension}` };
+
+  return { literal: base, suffix: extension };
+}
+
+function tokenizePath(url: string): Segment[] {
+  let pathname: string;
+  try {
+    pathname = new URL(url).pathname;
+  } catch {
+    pathname = url.split('?')[0];
+  }
+  return pathname.split('/').filter(Boolean).map(segment => {
+    try {
+      return tokenizeSegment(decodeURIComponent(segment));
+    } catch {
+      return tokenizeSegment(segment);
+    }
+  });
+}
+
+/**
+ * Infer URL templates such as /products/{slug}-{id}.html from a set of URLs.
+ * URLs are grouped by first path segment, segment count and the shape of
+ * every segment. Within a group, a segment position becomes {slug} when it
+ * takes at least minVariants values, or more than one value in front of an
+ * ID. A plain first segment is never generalized, so /about and /contact
+ * stay separate templates. Templates are returned largest first.
+ */
+export function inferUrlTemplates(urls: string[], minVariants: number = 3): UrlTemplate[] {
+  const groups = new Map<string, Array<{ url: string; segments: Segment[] }>>();
+
+  for (const url of Array.from(new Set(urls))) {
+    const segments = tokenizePath(url);
+    const first = segments[0] && !segments[0].suffix.includes('{id}') ? segments[0].literal : '';
+    const key = [segments.length, first, ...segments.map(s => s.suffix)].join('|');
+    if (!groups.has(key)) groups.set(key, []);
+    groups.get(key)!.push({ url, segments });
+  }
+
+  const templates = new Map<string, string[]>();
+
+  for (const members of groups.values()) {
+    const positions = members[0].segments.length;
+    const variable: boolean[] = [];
+    for (let i = 0; i < positions; i++) {
+      const values = new Set(members.map(m => m.segments[i].literal));
+      const beforeId = members[0].segments[i].suffix.includes('{id}');
+      variable.push(values.size > 1 && (beforeId || (i > 0 && values.size >= minVariants)));
+    }
+
+    for (const { url, segments } of members) {
+      const template = '/' + segments
+        .map((s, i) => (variable[i] ? '{slug}' : s.literal) + s.suffix)
+        .join('/');
+      if (!templates.has(template)) templates.set(template, []);
+      templates.get(template)!.push(url);
+    }
+  }
+
+  return Array.from(templates.entries())
+    .map(([template, members]) => ({ template, urls: members }))
+    .sort((a, b) => b.urls.length - a.urls.length);
+}
@@ -0,0 +1,109 @@
+import { PageUrl } from '../types.js';
+
+export type FrontierStatus = 'queued' | 'discovered' | 'visited' | 'failed';
+
+export interface FrontierRecord {
+  entry: PageUrl;
+  status: FrontierStatus;
+}
+
+/**
+ * Persistence hook so an interrupted crawl can be picked up again
+ */
+export interface FrontierStore {
+  load(): FrontierRecord[];
+  record(entry: PageUrl, status: FrontierStatus): void;
+}
+
+export class CrawlFrontier {
+  private maxDepth: number;
+  private maxUrls: number;
+  private store?: FrontierStore;
+  private queue: PageUrl[] = [];
+  private discovered: Map<string, PageUrl> = new Map();
+
+  constructor(maxDepth: number, maxUrls: number, store?: FrontierStore) {
+    this.maxDepth = maxDepth;
+    this.maxUrls = maxUrls;
+    this.store = store;
+  }
+
+  /**
+   * Record a URL at the given depth. Returns false if it was already
+   * discovered, is deeper than maxDepth, or the URL budget is exhausted.
+   */
+  add(url: PageUrl, depth: number): boolean {
+    if (depth > this.maxDepth || this.isFull() || this.discovered.has(url.normalized)) {
+      return false;
+    }
+
+    const entry: PageUrl = { ...url, depth };
+    this.discovered.set(url.normalized, entry);
+
+    // Pages on the last level are recorded but never expanded
+    if (depth < this.maxDepth) {
+      this.queue.push(entry);
+      this.store?.record(entry, 'queued');
+    } else {
+      this.store?.record(entry, 'discovered');
+    }
+
+    return true;
+  }
+
+  /**
+   * Rebuild the frontier from persisted records. Returns false when there
+   * was nothing to restore.
+   */
+  restore(records: FrontierRecord[]): boolean {
+    for (const { entry, status } of records) {
+      this.discovered.set(entry.normalized, entry);
+      if (status === 'queued') {
+        this.queue.push(entry);
+      }
+    }
+    return records.length > 0;
+  }
+
+  /**
+   * Take the next page to expand (breadth-first)
+   */
+  next(): PageUrl | undefined {
+    return this.queue.shift();
+  }
+
+  markVisited(entry: PageUrl): void {
+    this.store?.record(entry, 'visited');
+  }
+
+  markFailed(entry: PageUrl): void {
+    this.store?.record(entry, 'failed');
+  }
+
+  isFull(): boolean {
+    return this.discovered.size >= this.maxUrls;
+  }
+
+  has(normalized: string): boolean {
+    return this.discovered.has(normalized);
+  }
+
+  /**
+   * Get all discovered URLs in discovery order
+   */
+  getDiscovered(): PageUrl[] {
+    return Array.from(this.discovered.values());
+  }
+
+  /**
+   * Count discovered URLs per depth level
+   */
+  getDepthCounts(): Map<number, number> {
+    const counts = new Map<number, number>();
+    for (const entry of this.discovered.values()) {
+      const depth = entry.depth ?? 0;
+      counts.set(depth, (counts.get(depth) || 0) + 1);
+    }
+    return counts;
+  }
+}
@@ -1,40 +1,132 @@
 import { Page } from 'playwright';
 import { URLNormalizer } from './url-normalizer.js';
-import { PageUrl } from '../types.js';
+import { LinkEdge, LinkKind, PageUrl, QueryParamRules } from '../types.js';
 import logger from '../utils/logger.js';
 
+const MAX_ANCHOR_LENGTH = 200;
+
+// Kinds that a visitor can click; only these become link graph edges
+const CLICKABLE_KINDS: LinkKind[] = ['anchor', 'area', 'data-attr'];
+
 export class LinkExtractor {
   private normalizer: URLNormalizer;
+  private kinds?: Set<LinkKind>;
 
-  constructor(domain: string, excludedPatterns: string[]) {
-    this.normalizer = new URLNormalizer(domain, excludedPatterns);
+  /**
+   * @param kinds Element kinds to collect URLs from; all kinds when omitted
+   */
+  constructor(domain: string, excludedPatterns: string[], queryRules?: QueryParamRules, kinds?: LinkKind[]) {
+    this.normalizer = new URLNormalizer(domain, excludedPatterns, queryRules);
+    this.kinds = kinds ? new Set(kinds) : undefined;
   }
 
   async extractLinks(page: Page, baseUrl: string): Promise<PageUrl[]> {
+    const { links } = await this.extractLinkGraph(page, baseUrl);
+    return links;
+  }
+
+  /**
+   * Extract same-domain candidate URLs together with the edges pointing to
+   * them. Besides anchors, URLs come from area maps, canonical/alternate/
+   * next/prev link tags, iframes, GET forms and data-href/data-url
+   * attributes; each URL is tagged with the kind of element it was first
+   * found on (anchors win). Every distinct (target, anchor text, rel)
+   * combination of a clickable element is kept as an edge; the returned
+   * links are deduplicated.
+   */
+  async extractLinkGraph(page: Page, baseUrl: string): Promise<{ links: PageUrl[]; edges: LinkEdge[] }> {
     try {
-      const links = await page.evaluate(() => {
-        const anchors = document.querySelectorAll('a[href]');
-        return Array.from(anchors).map(a => ({
-          href: (a as HTMLAnchorElement).href,
-          text: a.textContent?.trim() || '',
-        }));
-      });
+      const found = await page.evaluate(() => {
+        const results: Array<{ href: string; kind: string; text: string; rel: string }> = [];
+        const textOf = (el: Element) => el.textContent?.replace(/\s+/g, ' ').trim() || '';
+        const resolve = (value: string | null) => {
+          try {
+            return value ? new URL(value, document.baseURI).href : '';
+          } catch {
+            return '';
+          }
+        };
+
+        document.querySelectorAll('a[href]').forEach(a => {
+          // Image links carry their anchor text in alt
+          const img = a.querySelector('img[alt]');
+          const text = textOf(a)
+            || a.getAttribute('aria-label')?.trim()
+            || img?.getAttribute('alt')?.trim()
+            || '';
+          results.push({
+            href: (a as HTMLAnchorElement).href,
+            kind: 'anchor',
+            text,
+            rel: a.getAttribute('rel')?.trim().toLowerCase() || '',
+          });
+        });
+
+        document.querySelectorAll('area[href]').forEach(area => {
+          results.push({
+            href: (area as HTMLAreaElement).href,
+            kind: 'area',
+            text: area.getAttribute('alt')?.trim() || '',
+            rel: area.getAttribute('rel')?.trim().toLowerCase() || '',
+          });
+        });
+
+        document.querySelectorAll('link[rel][href]').forEach(link => {
+          const rels = (link.getAttribute('rel') || '').toLowerCase().split(/\s+/);
+          const kind = ['canonical', 'alternate', 'next', 'prev'].find(r => rels.includes(r));
+          // Skip feeds and other non-page alternates
+          const type = link.getAttribute('type');
+          if (!kind || (type && !type.includes('html'))) return;
+          results.push({ href: (link as HTMLLinkElement).href, kind, text: '', rel: '' });
+        });
+
+        document.querySelectorAll('iframe[src]').forEach(iframe => {
+          results.push({ href: (iframe as HTMLIFrameElement).src, kind: 'iframe', text: '', rel: '' });
+        });
 
+        document.querySelectorAll('form[action]').forEach(form => {
+          if ((form.getAttribute('method') || 'get').toLowerCase() !== 'get') return;
+          results.push({ href: (form as HTMLFormElement).action, kind: 'form', text: '', rel: '' });
+        });
+
+        // Cards that navigate from a click handler
+        document.querySelectorAll('[data-href], [data-url]').forEach(el => {
+          const href = resolve(el.getAttribute('data-href') || el.getAttribute('data-url'));
+          if (href) results.push({ href, kind: 'data-attr', text: textOf(el), rel: '' });
+        });
+
+        return results;
+      }) as Array<{ href: string; kind: LinkKind; text: string; rel: string }>;
+
+      const links = this.kinds ? found.filter(link => this.kinds!.has(link.kind)) : found;
+
+      const source = this.normalizer.normalize(baseUrl)?.normalized || baseUrl;
       const normalized: PageUrl[] = [];
+      const edges = new Map<string, LinkEdge>();
+
       for (const link of links) {
         const normalizedUrl = this.normalizer.normalize(link.href, baseUrl);
-        if (normalizedUrl) {
-          normalized.push(normalizedUrl);
-        }
+        if (!normalizedUrl) continue;
+
+        normalized.push({ ...normalizedUrl, kind: link.kind });
+        if (!CLICKABLE_KINDS.includes(link.kind)) continue;
+
+        const edge: LinkEdge = {
+          source,
+          target: normalizedUrl.normalized,
+          anchorText: link.text.substring(0, MAX_ANCHOR_LENGTH),
+          rel: link.rel || undefined,
+        };
+        edges.set(`${edge.target}\n${edge.anchorText}\n${link.rel}`, edge);
       }
 
       const deduplicated = this.normalizer.deduplicate(normalized);
       logger.info(`Extracted ${deduplicated.length} unique links from ${baseUrl}`);
 
-      return deduplicated;
+      return { links: deduplicated, edges: Array.from(edges.values()) };
     } catch (error) {
       logger.error(`Failed to extract links from ${baseUrl}:`, error);
-      return [];
+      return { links: [], edges: [] };
     }
   }
 }
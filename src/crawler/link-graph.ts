@@ -0,0 +1,155 @@
+import { LinkEdge } from '../types.js';
+
+export interface LinkGraphPage {
+  url: string;
+  clickDepth: number | null;
+  inbound: number;
+  nofollowInbound: number;
+  outbound: number;
+}
+
+export interface AnchorTextCount {
+  text: string;
+  count: number;
+  targets: number;
+}
+
+export interface LinkGraphOptions {
+  deepThreshold: number;
+  maxInbound: number;
+  limit: number;
+  filter?: (url: string) => boolean;
+}
+
+export interface LinkGraphAnalysis {
+  totalEdges: number;
+  totalPages: number;
+  expandedPages: number;
+  depthDistribution: Record<string, number>;
+  deepPages: LinkGraphPage[];
+  lowInboundPages: LinkGraphPage[];
+  anchorTexts: AnchorTextCount[];
+  emptyAnchors: number;
+}
+
+const isNofollow = (edge: LinkEdge): boolean => (edge.rel || '').split(/\s+/).includes('nofollow');
+
+/**
+ * Internal link graph of one crawl. Only pages the crawler expanded have
+ * outgoing edges, so inbound counts are a lower bound for the deepest
+ * discovered pages.
+ */
+export class LinkGraph {
+  private edges: LinkEdge[];
+  private outgoing: Map<string, LinkEdge[]> = new Map();
+  private incoming: Map<string, LinkEdge[]> = new Map();
+
+  constructor(edges: LinkEdge[]) {
+    this.edges = edges;
+    for (const edge of edges) {
+      if (!this.outgoing.has(edge.source)) this.outgoing.set(edge.source, []);
+      if (!this.incoming.has(edge.target)) this.incoming.set(edge.target, []);
+      this.outgoing.get(edge.source)!.push(edge);
+      this.incoming.get(edge.target)!.push(edge);
+    }
+  }
+
+  /**
+   * Every URL that appears in the graph
+   */
+  getPages(): string[] {
+    return Array.from(new Set([...this.outgoing.keys(), ...this.incoming.keys()]));
+  }
+
+  /**
+   * Shortest number of clicks from root to each page. nofollow links are
+   * not followed, matching how search engines discover pages.
+   */
+  getClickDepths(root: string): Map<string, number> {
+    const depths = new Map<string, number>([[root, 0]]);
+    const queue = [root];
+
+    while (queue.length > 0) {
+      const url = queue.shift()!;
+      const depth = depths.get(url)!;
+      for (const edge of this.outgoing.get(url) || []) {
+        if (isNofollow(edge) || depths.has(edge.target)) continue;
+        depths.set(edge.target, depth + 1);
+        queue.push(edge.target);
+      }
+    }
+
+    return depths;
+  }
+
+  /**
+   * Inbound link counts, counting each linking page once
+   */
+  private getInbound(url: string): { inbound: number; nofollowInbound: number } {
+    const followed = new Set<string>();
+    const nofollow = new Set<string>();
+    for (const edge of this.incoming.get(url) || []) {
+      if (edge.source === url) continue;
+      (isNofollow(edge) ? nofollow : followed).add(edge.source);
+    }
+    return { inbound: followed.size, nofollowInbound: nofollow.size };
+  }
+
+  /**
+   * Anchor texts used across the graph, most frequent first
+   */
+  getAnchorTexts(): AnchorTextCount[] {
+    const counts = new Map<string, { count: number; targets: Set<string> }>();
+    for (const edge of this.edges) {
+      if (!edge.anchorText) continue;
+      const key = edge.anchorText.toLowerCase();
+      if (!counts.has(key)) counts.set(key, { count: 0, targets: new Set() });
+      const entry = counts.get(key)!;
+      entry.count++;
+      entry.targets.add(edge.target);
+    }
+
+    return Array.from(counts.entries())
+      .map(([text, { count, targets }]) => ({ text, count, targets: targets.size }))
+      .sort((a, b) => b.count - a.count);
+  }
+
+  analyze(root: string, options: LinkGraphOptions): LinkGraphAnalysis {
+    const depths = this.getClickDepths(root);
+    const pages: LinkGraphPage[] = this.getPages()
+      .filter(url => !options.filter || options.filter(url))
+      .map(url => ({
+        url,
+        clickDepth: depths.get(url) ?? null,
+        ...this.getInbound(url),
+        outbound: (this.outgoing.get(url) || []).length,
+      }));
+
+    const depthDistribution: Record<string, number> = {};
+    for (const page of pages) {
+      const key = page.clickDepth === null ? 'unreachable' : String(page.clickDepth);
+      depthDistribution[key] = (depthDistribution[key] || 0) + 1;
+    }
+
+    // Unreachable pages sort as the deepest
+    const depthOf = (page: LinkGraphPage): number => page.clickDepth ?? Number.MAX_SAFE_INTEGER;
+    const deepPages = pages
+      .filter(p => p.clickDepth === null || p.clickDepth >= options.deepThreshold)
+      .sort((a, b) => depthOf(b) - depthOf(a));
+
+    const lowInboundPages = pages
+      .filter(p => p.url !== root && p.inbound <= options.maxInbound)
+      .sort((a, b) => a.inbound - b.inbound || depthOf(b) - depthOf(a));
+
+    return {
+      totalEdges: this.edges.length,
+      totalPages: pages.length,
+      expandedPages: this.outgoing.size,
+      depthDistribution,
+      deepPages: deepPages.slice(0, options.limit),
+      lowInboundPages: lowInboundPages.slice(0, options.limit),
+      anchorTexts: this.getAnchorTexts().slice(0, options.limit),
+      emptyAnchors: this.edges.filter(e => !e.anchorText).length,
+    };
+  }
+}
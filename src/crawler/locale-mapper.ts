@@ -0,0 +1,62 @@
+export interface LocaleTarget {
+  url: string;
+  method: 'source' | 'hreflang' | 'subdomain';
+}
+
+/**
+ * Swap the first hostname label, e.g. https://en.guazi.com/a -> https://ru.guazi.com/a
+ */
+export function swapLocaleSubdomain(url: string, locale: string): string {
+  const urlObj = new URL(url);
+  const parts = urlObj.hostname.split('.');
+  if (parts.length >= 2) {
+    const baseDomain = parts.slice(1).join('.');  // guazi.com
+    urlObj.hostname = `${locale}.${baseDomain}`;
+  }
+  return urlObj.toString();
+}
+
+/**
+ * Find the hreflang alternate for a locale code such as "ar": an exact
+ * hreflang match first, then a regional variant ("ar-ae"), then an
+ * alternate hosted on the locale's subdomain
+ */
+function findAlternate(alternates: Record<string, string>, locale: string): string | undefined {
+  const code = locale.toLowerCase();
+  if (alternates[code]) return alternates[code];
+
+  const regional = Object.keys(alternates).find(hreflang => hreflang.split('-')[0] === code);
+  if (regional) return alternates[regional];
+
+  return Object.values(alternates).find(href => {
+    try {
+      return new URL(href).hostname.startsWith(`${code}.`);
+    } catch {
+      return false;
+    }
+  });
+}
+
+/**
+ * Resolve the page equivalent to sourceUrl on a target locale. Pages that
+ * declare hreflang alternates are mapped through them; the subdomain swap
+ * is only used when a page declares none. Returns null when the page has
+ * alternates but none for this locale, i.e. there is no equivalent page.
+ */
+export function resolveLocaleUrl(
+  sourceUrl: string,
+  locale: string,
+  alternates?: Record<string, string>
+): LocaleTarget | null {
+  if (new URL(sourceUrl).hostname.startsWith(`${locale}.`)) {
+    return { url: sourceUrl, method: 'source' };
+  }
+
+  const declared = Object.keys(alternates || {}).filter(hreflang => hreflang !== 'x-default');
+  if (declared.length === 0) {
+    return { url: swapLocaleSubdomain(sourceUrl, locale), method: 'subdomain' };
+  }
+
+  const alternate = findAlternate(alternates!, locale);
+  return alternate ? { url: alternate, method: 'hreflang' } : null;
+}
@@ -1,6 +1,13 @@
 import { chromium, Browser, Page, BrowserContext } from 'playwright';
 import { LinkExtractor } from './link-extractor.js';
-import { PageUrl, Config } from '../types.js';
+import { CrawlFrontier, FrontierStore } from './crawl-frontier.js';
+import { SpaRouteDiscovery } from './spa-route-discovery.js';
+import { URLNormalizer, resolveQueryParamRules } from './url-normalizer.js';
+import { CRAWLER_USER_AGENT } from './robots-txt.js';
+import { AuthSession, endedOnLoginPage } from './auth-session.js';
+import { PageUrl, Config, LinkEdge, RequestProfile } from '../types.js';
+import { applyProfileCookies, profileContextOptions } from '../utils/request-profile.js';
+import { HostScheduler } from '../utils/host-scheduler.js';
 import logger from '../utils/logger.js';
 
 export class PageVisitor {
@@ -8,12 +15,26 @@ export class PageVisitor {
   private browser?: Browser;
   private context?: BrowserContext;
   private linkExtractor: LinkExtractor;
+  private auth?: AuthSession;
+  private requestProfile: RequestProfile;
+  private cookieHosts: Set<string> = new Set();
+  private scheduler: HostScheduler;
 
-  constructor(config: Config) {
+  constructor(
+    config: Config,
+    auth?: AuthSession,
+    requestProfile: RequestProfile = {},
+    scheduler: HostScheduler = new HostScheduler(config)
+  ) {
     this.config = config;
+    this.auth = auth;
+    this.requestProfile = requestProfile;
+    this.scheduler = scheduler;
     this.linkExtractor = new LinkExtractor(
       config.domains[0],
-      config.excludedPatterns
+      config.excludedPatterns,
+      resolveQueryParamRules(config.queryParams, config.domains[0]),
+      config.crawl.linkKinds
     );
   }
 
@@ -23,11 +44,14 @@ export class PageVisitor {
     });
 
     this.context = await this.browser.newContext({
-      userAgent: 'Mozilla/5.0 (compatible; enspider/1.0; +https://guazi.com)',
+      ...profileContextOptions(this.requestProfile),
+      userAgent: CRAWLER_USER_AGENT,
+      storageState: this.auth?.storageState,
     });
+    this.cookieHosts.clear();
   }
 
-  async visitHomepage(domain: string): Promise<{ page: Page; links: PageUrl[] }> {
+  async visitHomepage(domain: string): Promise<{ page: Page; links: PageUrl[]; edges: LinkEdge[] }> {
     if (!this.context) {
       await this.initialize();
     }
@@ -36,14 +60,19 @@ export class PageVisitor {
     const url = `https://${domain}/`;
 
     try {
+      await this.applyCookies(url);
       logger.info(`Visiting homepage: ${url}`);
-      await page.goto(url, {
-        waitUntil: 'domcontentloaded',
-        timeout: this.config.timeout,
-      });
+      await this.scheduler.schedule(url, async () => {
+        const response = await page.goto(url, {
+          waitUntil: 'domcontentloaded',
+          timeout: this.config.timeout,
+        });
+        this.scheduler.report(url, response?.status() || 0);
 
-      // Wait longer for dynamic content on homepage
-      await page.waitForTimeout(5000);
+        // Wait longer for dynamic content on homepage
+        await page.waitForTimeout(5000);
+      });
+      this.assertLoggedIn(url, page);
 
       // Scroll to bottom to trigger lazy loading
       try {
@@ -75,10 +104,15 @@ export class PageVisitor {
         logger.warn('Auto-scroll failed, proceeding with available content');
       }
 
-      const linkExtractor = new LinkExtractor(domain, this.config.excludedPatterns);
-      const links = await linkExtractor.extractLinks(page, url);
+      const linkExtractor = new LinkExtractor(
+        domain,
+        this.config.excludedPatterns,
+        resolveQueryParamRules(this.config.queryParams, domain),
+        this.config.crawl.linkKinds
+      );
+      const { links, edges } = await linkExtractor.extractLinkGraph(page, url);
 
-      return { page, links };
+      return { page, links, edges };
     } catch (error) {
       logger.error(`Failed to visit homepage ${url}:`, error);
       await page.close();
@@ -86,27 +120,178 @@ export class PageVisitor {
     }
   }
 
+  /**
+   * Breadth-first crawl starting at the homepage. Follows same-domain links
+   * up to config.crawl.maxDepth and stops once config.crawl.maxUrls URLs
+   * have been discovered. Every visited page is handed to onPage before it
+   * is closed, so callers can fingerprint it without a second visit.
+   * With a store, progress is persisted and a previous crawl is resumed
+   * instead of starting again from the homepage. onLinks receives the
+   * outgoing link edges of every expanded page. When config.spaDiscovery
+   * is enabled, the first expanded pages are also probed for script-driven
+   * routes; those are crawl candidates but not link graph edges, since
+   * search engines cannot follow them. Once signal is aborted the crawl
+   * throws its reason and leaves the remaining frontier untouched.
+   */
+  async crawl(
+    domain: string,
+    onPage?: (page: Page, entry: PageUrl) => Promise<void>,
+    store?: FrontierStore,
+    onLinks?: (edges: LinkEdge[]) => void,
+    signal?: AbortSignal
+  ): Promise<PageUrl[]> {
+    const { maxDepth, maxUrls } = this.config.crawl;
+    const frontier = new CrawlFrontier(maxDepth, maxUrls, store);
+    const queryRules = resolveQueryParamRules(this.config.queryParams, domain);
+    const normalizer = new URLNormalizer(domain, this.config.excludedPatterns, queryRules);
+    const linkExtractor = new LinkExtractor(domain, this.config.excludedPatterns, queryRules, this.config.crawl.linkKinds);
+
+    let probedPages = 0;
+    const probeRoutes = async (entry: PageUrl): Promise<PageUrl[]> => {
+      const { enabled, maxPages } = this.config.spaDiscovery;
+      if (!enabled || probedPages >= maxPages) return [];
+      probedPages++;
+      const discovery = new SpaRouteDiscovery(
+        this.browser!,
+        this.config,
+        domain,
+        queryRules,
+        this.scheduler,
+        this.requestProfile,
+        this.auth
+      );
+      return discovery.discover(entry.url);
+    };
+
+    if (store && frontier.restore(store.load())) {
+      logger.info(`Resuming crawl of ${domain} with ${frontier.getDiscovered().length} known URLs`);
+    } else {
+      const { page: homepage, links, edges } = await this.visitHomepage(domain);
+      const homepageUrl: PageUrl = {
+        ...(normalizer.normalize(`https://${domain}/`) || {
+          url: `https://${domain}/`,
+          domain,
+          normalized: `https://${domain}/`,
+        }),
+        source: 'homepage',
+      };
+
+      frontier.add(homepageUrl, 0);
+      // The homepage was already expanded by visitHomepage
+      frontier.next();
+
+      try {
+        if (onPage) {
+          await onPage(homepage, { ...homepageUrl, depth: 0 });
+        }
+      } finally {
+        await homepage.close();
+      }
+
+      for (const link of links) {
+        frontier.add({ ...link, source: 'homepage' }, 1);
+      }
+      for (const route of await probeRoutes(homepageUrl)) {
+        frontier.add(route, 1);
+      }
+      onLinks?.(edges);
+      frontier.markVisited({ ...homepageUrl, depth: 0 });
+    }
+
+    let entry: PageUrl | undefined;
+    while (!frontier.isFull() && (entry = frontier.next())) {
+      signal?.throwIfAborted();
+      const depth = entry.depth ?? 0;
+      let page: Page;
+
+      try {
+        page = await this.visitPage(entry.url);
+      } catch (error) {
+        // Visits fail once the browser is closed for an abort; the entry is not at fault
+        signal?.throwIfAborted();
+        logger.warn(`Failed to crawl ${entry.url} (depth ${depth})`);
+        frontier.markFailed(entry);
+        continue;
+      }
+
+      try {
+        const { links: childLinks, edges } = await linkExtractor.extractLinkGraph(page, entry.url);
+        onLinks?.(edges);
+        if (onPage) {
+          await onPage(page, entry);
+        }
+
+        let added = 0;
+        for (const link of childLinks) {
+          if (frontier.add({ ...link, source: 'crawl' }, depth + 1)) added++;
+        }
+        for (const route of await probeRoutes(entry)) {
+          if (frontier.add(route, depth + 1)) added++;
+        }
+        logger.info(`Crawled ${entry.url} (depth ${depth}): ${added} new links`);
+        signal?.throwIfAborted();
+        frontier.markVisited(entry);
+      } finally {
+        await page.close();
+      }
+    }
+
+    const depthSummary = Array.from(frontier.getDepthCounts().entries())
+      .sort((a, b) => a[0] - b[0])
+      .map(([d, count]) => `depth ${d}: ${count}`)
+      .join(', ');
+    logger.info(`Crawl of ${domain} discovered ${frontier.getDiscovered().length} URLs (${depthSummary})`);
+
+    return frontier.getDiscovered();
+  }
+
   async visitPage(url: string): Promise<Page> {
     if (!this.context) {
       await this.initialize();
     }
 
-    const page = await this.context!.newPage();
+    // The page is only opened once the host has a free slot
+    return this.scheduler.schedule(url, async () => {
+      const page = await this.context!.newPage();
 
-    try {
-      logger.info(`Visiting page: ${url}`);
-      await page.goto(url, {
-        waitUntil: 'domcontentloaded',
-        timeout: this.config.timeout,
-      });
+      try {
+        await this.applyCookies(url);
+        logger.info(`Visiting page: ${url}`);
+        const response = await page.goto(url, {
+          waitUntil: 'domcontentloaded',
+          timeout: this.config.timeout,
+        });
+        this.scheduler.report(url, response?.status() || 0);
 
-      // Wait for dynamic content
-      await page.waitForTimeout(3000);
+        // Wait for dynamic content
+        await page.waitForTimeout(3000);
+        this.assertLoggedIn(url, page);
 
-      return page;
-    } catch (error) {
-      await page.close();
-      throw error;
+        return page;
+      } catch (error) {
+        await page.close();
+        throw error;
+      }
+    });
+  }
+
+  /**
+   * Seed the request profile cookies the first time a host is visited
+   */
+  private async applyCookies(url: string): Promise<void> {
+    const host = new URL(url).hostname;
+    if (this.cookieHosts.has(host)) return;
+    this.cookieHosts.add(host);
+    await applyProfileCookies(this.context!, this.requestProfile, host);
+  }
+
+  /**
+   * Fail the visit when an authenticated session was bounced to the login page
+   */
+  private assertLoggedIn(url: string, page: Page): void {
+    if (endedOnLoginPage(this.auth, url, page.url())) {
+      logger.warn(`Session for ${this.auth!.domain} was redirected to the login page: ${page.url()}`);
+      throw new Error(`Redirected to login page while visiting ${url}`);
     }
   }
 
@@ -0,0 +1,150 @@
+import logger from '../utils/logger.js';
+
+export const CRAWLER_USER_AGENT = 'Mozilla/5.0 (compatible; enspider/1.0; +https://guazi.com)';
+
+export interface RobotsRule {
+  allow: boolean;
+  path: string;
+}
+
+interface RobotsGroup {
+  userAgents: string[];
+  rules: RobotsRule[];
+}
+
+/**
+ * Product token of a user-agent value, e.g. "googlebot" for "Googlebot/2.1"
+ */
+function productToken(value: string): string {
+  return value.trim().split(/[\s/]/)[0].toLowerCase();
+}
+
+/**
+ * Bring a path or pattern to one percent-encoding: escapes of unreserved
+ * characters are decoded, other escapes get upper-case hex, and characters
+ * outside printable ASCII are encoded as UTF-8
+ */
+function normalizePercentEncoding(value: string): string {
+  return value
+    .replace(/%([0-9a-fA-F]{2})/g, (_, hex: string) => {
+      const char = String.fromCharCode(parseInt(hex, 16));
+      return /[A-Za-z0-9\-._~]/.test(char) ? char : `%${hex.toUpperCase()}`;
+    })
+    .replace(/[^\x21-\x7e]/gu, char => encodeURIComponent(char));
+}
+
+export class RobotsTxt {
+  readonly sitemaps: string[] = [];
+  private groups: RobotsGroup[] = [];
+
+  constructor(content: string) {
+    let current: RobotsGroup | null = null;
+
+    for (const rawLine of content.split(/\r?\n/)) {
+      const line = rawLine.replace(/#.*$/, '').trim();
+      const separator = line.indexOf(':');
+      if (separator === -1) continue;
+
+      const field = line.substring(0, separator).trim().toLowerCase();
+      const value = line.substring(separator + 1).trim();
+
+      if (field === 'sitemap' && value) {
+        this.sitemaps.push(value);
+      } else if (field === 'user-agent') {
+        // Consecutive user-agent lines share one group
+        if (!current || current.rules.length > 0) {
+          current = { userAgents: [], rules: [] };
+          this.groups.push(current);
+        }
+        current.userAgents.push(productToken(value));
+      } else if ((field === 'allow' || field === 'disallow') && current) {
+        // An empty Disallow means "allow everything" and adds no rule
+        if (value) {
+          current.rules.push({ allow: field === 'allow', path: normalizePercentEncoding(value) });
+        }
+      }
+    }
+  }
+
+  /**
+   * Rules of the groups naming the crawler's product token (e.g.
+   * "googlebot"), compared case-insensitively as a whole token so
+   * "Googlebot-News" does not apply to Googlebot; falls back to the "*" group
+   */
+  private rulesFor(agent: string): RobotsRule[] {
+    const token = productToken(agent);
+    let matched = this.groups.filter(g => g.userAgents.includes(token));
+    if (matched.length === 0) {
+      matched = this.groups.filter(g => g.userAgents.includes('*'));
+    }
+    return matched.flatMap(g => g.rules);
+  }
+
+  private patternToRegex(pattern: string): RegExp {
+    const anchored = pattern.endsWith('$');
+    const body = (anchored ? pattern.slice(0, -1) : pattern)
+      .split('*')
+      .map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+      .join('.*');
+    return new RegExp(`^${body}${anchored ? '$' : ''}`);
+  }
+
+  /**
+   * Find the rule that decides access to a URL, using Google's semantics:
+   * the longest matching path wins and Allow wins a tie. Returns null when
+   * no rule matches (i.e. the URL is allowed).
+   */
+  findRule(url: string, agent: string): RobotsRule | null {
+    let target: string;
+    try {
+      const urlObj = new URL(url);
+      target = urlObj.pathname + urlObj.search;
+    } catch {
+      target = url;
+    }
+    target = normalizePercentEncoding(target);
+
+    let best: RobotsRule | null = null;
+    for (const rule of this.rulesFor(agent)) {
+      if (!this.patternToRegex(rule.path).test(target)) continue;
+      if (
+        !best ||
+        rule.path.length > best.path.length ||
+        (rule.path.length === best.path.length && rule.allow && !best.allow)
+      ) {
+        best = rule;
+      }
+    }
+    return best;
+  }
+
+  isAllowed(url: string, agent: string): boolean {
+    const rule = this.findRule(url, agent);
+    return !rule || rule.allow;
+  }
+}
+
+/**
+ * Fetch and parse https://<domain>/robots.txt. Returns null when the file
+ * is missing or cannot be fetched.
+ */
+export async function fetchRobotsTxt(domain: string, timeout: number): Promise<RobotsTxt | null> {
+  const url = `https://${domain}/robots.txt`;
+
+  try {
+    const response = await fetch(url, {
+      headers: { 'User-Agent': CRAWLER_USER_AGENT },
+      signal: AbortSignal.timeout(timeout),
+    });
+
+    if (!response.ok) {
+      logger.warn(`robots.txt not available for ${domain} (HTTP ${response.status})`);
+      return null;
+    }
+
+    return new RobotsTxt(await response.text());
+  } catch (error) {
+    logger.warn(`Failed to fetch ${url}:`, error);
+    return null;
+  }
+}
@@ -0,0 +1,151 @@
+import { gunzipSync } from 'zlib';
+import { URLNormalizer, resolveQueryParamRules } from './url-normalizer.js';
+import { CRAWLER_USER_AGENT, fetchRobotsTxt } from './robots-txt.js';
+import { Config, PageUrl } from '../types.js';
+import logger from '../utils/logger.js';
+
+export interface SitemapEntry {
+  loc: string;
+  lastmod?: string;
+  sitemap: string;
+}
+
+export class SitemapDiscovery {
+  private config: Config;
+
+  constructor(config: Config) {
+    this.config = config;
+  }
+
+  /**
+   * Decode the handful of XML entities that show up in <loc> values
+   */
+  private decodeXml(value: string): string {
+    return value
+      .replace(/&lt;/g, '<')
+      .replace(/&gt;/g, '>')
+      .replace(/&quot;/g, '"')
+      .replace(/&apos;/g, "'")
+      .replace(/&amp;/g, '&');
+  }
+
+  private readTag(block: string, tag: string): string | undefined {
+    const match = block.match(new RegExp(`<${tag}>\\s*(?:<!\\[CDATA\\[)?([\\s\\S]*?)(?:\\]\\]>)?\\s*</${tag}>`, 'i'));
+    return match ? this.decodeXml(match[1].trim()) : undefined;
+  }
+
+  /**
+   * Download a sitemap, transparently inflating gzipped files
+   */
+  private async fetchSitemap(url: string): Promise<string | null> {
+    try {
+      const response = await fetch(url, {
+        headers: { 'User-Agent': CRAWLER_USER_AGENT },
+        signal: AbortSignal.timeout(this.config.timeout),
+      });
+
+      if (!response.ok) {
+        logger.warn(`Sitemap ${url} returned HTTP ${response.status}`);
+        return null;
+      }
+
+      const body = Buffer.from(await response.arrayBuffer());
+      // gzip magic bytes; servers often send .xml.gz without Content-Encoding
+      if (body.length > 2 && body[0] === 0x1f && body[1] === 0x8b) {
+        return gunzipSync(body).toString('utf-8');
+      }
+      return body.toString('utf-8');
+    } catch (error) {
+      logger.warn(`Failed to fetch sitemap ${url}:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Collect every <url> entry reachable from robots.txt Sitemap directives,
+   * following sitemap indexes. Falls back to /sitemap.xml when robots.txt
+   * declares none. truncated is set when maxUrls or maxSitemaps stopped the
+   * walk before every listed URL was read.
+   */
+  async fetchEntries(domain: string): Promise<{ entries: SitemapEntry[]; truncated: boolean }> {
+    const { maxSitemaps, maxUrls } = this.config.sitemap;
+    const robots = await fetchRobotsTxt(domain, this.config.timeout);
+    const queue = robots && robots.sitemaps.length > 0
+      ? [...robots.sitemaps]
+      : [`https://${domain}/sitemap.xml`];
+
+    const fetched = new Set<string>();
+    const entries: SitemapEntry[] = [];
+    let truncated = false;
+
+    while (queue.length > 0 && fetched.size < maxSitemaps && entries.length < maxUrls) {
+      const sitemapUrl = queue.shift()!;
+      if (fetched.has(sitemapUrl)) continue;
+      fetched.add(sitemapUrl);
+
+      const xml = await this.fetchSitemap(sitemapUrl);
+      if (!xml) continue;
+
+      if (/<sitemapindex[\s>]/i.test(xml)) {
+        const children = xml.match(/<sitemap\b[\s\S]*?<\/sitemap>/gi) || [];
+        for (const block of children) {
+          const loc = this.readTag(block, 'loc');
+          if (loc) queue.push(loc);
+        }
+        logger.info(`Sitemap index ${sitemapUrl} lists ${children.length} sitemaps`);
+        continue;
+      }
+
+      const blocks = xml.match(/<url\b[\s\S]*?<\/url>/gi) || [];
+      for (let i = 0; i < blocks.length; i++) {
+        const loc = this.readTag(blocks[i], 'loc');
+        if (!loc) continue;
+        entries.push({ loc, lastmod: this.readTag(blocks[i], 'lastmod'), sitemap: sitemapUrl });
+        if (entries.length >= maxUrls) {
+          truncated = i < blocks.length - 1;
+          break;
+        }
+      }
+      logger.info(`Sitemap ${sitemapUrl}: ${blocks.length} URLs`);
+    }
+
+    // Sitemaps left unread because a limit was reached
+    if (queue.some(url => !fetched.has(url))) {
+      truncated = true;
+    }
+    if (truncated) {
+      logger.warn(`Sitemaps for ${domain} were cut at ${entries.length} URLs / ${fetched.size} files`);
+    }
+
+    return { entries, truncated };
+  }
+
+  /**
+   * Discover same-domain page URLs from the domain's sitemaps. The raw
+   * entries are returned as well so they can be audited later.
+   */
+  async discover(domain: string): Promise<{ entries: SitemapEntry[]; urls: PageUrl[]; truncated: boolean }> {
+    if (!this.config.sitemap.enabled) {
+      return { entries: [], urls: [], truncated: false };
+    }
+
+    const normalizer = new URLNormalizer(
+      domain,
+      this.config.excludedPatterns,
+      resolveQueryParamRules(this.config.queryParams, domain)
+    );
+    const { entries, truncated } = await this.fetchEntries(domain);
+
+    const urls: PageUrl[] = [];
+    for (const entry of entries) {
+      const normalized = normalizer.normalize(entry.loc);
+      if (normalized) {
+        urls.push({ ...normalized, source: 'sitemap' });
+      }
+    }
+
+    const deduplicated = normalizer.deduplicate(urls);
+    logger.info(`Sitemaps for ${domain}: ${entries.length} entries, ${deduplicated.length} usable URLs`);
+    return { entries, urls: deduplicated, truncated };
+  }
+}
@@ -0,0 +1,174 @@
+import { Browser, BrowserContext, Page } from 'playwright';
+import { URLNormalizer } from './url-normalizer.js';
+import { CRAWLER_USER_AGENT } from './robots-txt.js';
+import { AuthSession } from './auth-session.js';
+import { Config, PageUrl, QueryParamRules, RequestProfile } from '../types.js';
+import { applyProfileCookies, profileContextOptions } from '../utils/request-profile.js';
+import { HostScheduler } from '../utils/host-scheduler.js';
+import logger from '../utils/logger.js';
+
+// Elements that commonly switch routes without being real links
+const CANDIDATE_SELECTOR = [
+  '[role="tab"]',
+  '[role="link"]:not(a)',
+  '[onclick]:not(a)',
+  '[class*="tab" i]:not(a)',
+  '[class*="filter" i]:not(a)',
+  '[class*="chip" i]:not(a)',
+  '[class*="more" i]:not(a)',
+  'button',
+].join(', ');
+
+const MORE_TEXT = /view more|load more|see all|show more|more/i;
+
+/**
+ * Finds routes that are reached through onclick handlers and the history
+ * API rather than anchors. Pages are probed in their own browser context
+ * with the crawl's request profile and login session. While elements are
+ * clicked, full navigations are recorded and aborted instead of followed,
+ * and every non-GET request is aborted, so a click cannot change server
+ * state. Page loads wait for a slot on the crawl's host scheduler.
+ */
+export class SpaRouteDiscovery {
+  private config: Config;
+  private browser: Browser;
+  private normalizer: URLNormalizer;
+  private scheduler: HostScheduler;
+  private requestProfile: RequestProfile;
+  private auth?: AuthSession;
+
+  constructor(
+    browser: Browser,
+    config: Config,
+    domain: string,
+    queryRules: QueryParamRules | undefined,
+    scheduler: HostScheduler,
+    requestProfile: RequestProfile = {},
+    auth?: AuthSession
+  ) {
+    this.browser = browser;
+    this.config = config;
+    this.normalizer = new URLNormalizer(domain, config.excludedPatterns, queryRules);
+    this.scheduler = scheduler;
+    this.requestProfile = requestProfile;
+    this.auth = auth;
+  }
+
+  private async prepareSandbox(
+    context: BrowserContext,
+    url: string,
+    routes: Set<string>,
+    probing: { active: boolean }
+  ): Promise<void> {
+    await applyProfileCookies(context, this.requestProfile, new URL(url).hostname);
+
+    // Record history API calls made by the page's router
+    await context.addInitScript(() => {
+      const recorded: string[] = [];
+      (window as any).__enspiderRoutes = recorded;
+      for (const method of ['pushState', 'replaceState'] as const) {
+        const original = history[method];
+        history[method] = function (this: History, ...args: Parameters<History['pushState']>) {
+          if (args[2] != null) {
+            recorded.push(new URL(String(args[2]), location.href).href);
+          }
+          return original.apply(this, args);
+        };
+      }
+    });
+
+    await context.route('**/*', route => {
+      const request = route.request();
+      if (probing.active && request.isNavigationRequest() && request.frame().parentFrame() === null) {
+        routes.add(request.url());
+        return route.abort('aborted');
+      }
+      // Form posts and XHR/fetch writes could act on the logged-in account
+      if (probing.active && request.method() !== 'GET' && request.method() !== 'HEAD') {
+        return route.abort('aborted');
+      }
+      return route.continue();
+    });
+
+    context.on('page', popup => {
+      routes.add(popup.url());
+      popup.close().catch(() => undefined);
+    });
+  }
+
+  private async load(page: Page, url: string, probing: { active: boolean }): Promise<void> {
+    probing.active = false;
+    await this.scheduler.schedule(url, async () => {
+      const response = await page.goto(url, { waitUntil: 'domcontentloaded', timeout: this.config.timeout });
+      this.scheduler.report(url, response?.status() || 0);
+    });
+    await page.waitForTimeout(2000);
+    probing.active = true;
+  }
+
+  /**
+   * Click likely navigation elements on a page and return the same-origin
+   * URLs they lead to
+   */
+  async discover(url: string): Promise<PageUrl[]> {
+    const routes = new Set<string>();
+    const probing = { active: false };
+    let context: BrowserContext | undefined;
+
+    try {
+      context = await this.browser.newContext({
+        ...profileContextOptions(this.requestProfile),
+        userAgent: CRAWLER_USER_AGENT,
+        storageState: this.auth?.storageState,
+      });
+      await this.prepareSandbox(context, url, routes, probing);
+      const page = await context.newPage();
+      page.on('dialog', dialog => dialog.dismiss().catch(() => undefined));
+      await this.load(page, url, probing);
+      const landingUrl = page.url();
+
+      const candidates = page.locator(CANDIDATE_SELECTOR);
+      const total = Math.min(await candidates.count(), this.config.spaDiscovery.maxClicks);
+
+      for (let i = 0; i < total; i++) {
+        const candidate = candidates.nth(i);
+        try {
+          if (!(await candidate.isVisible())) continue;
+          // Skip plain buttons unless they look like "view more"
+          const tag = await candidate.evaluate(el => el.tagName.toLowerCase());
+          if (tag === 'button' && !MORE_TEXT.test((await candidate.textContent()) || '')) continue;
+
+          await candidate.click({ timeout: 2000 });
+          await page.waitForTimeout(500);
+        } catch {
+          continue;
+        }
+
+        const recorded: string[] = await page.evaluate(() => (window as any).__enspiderRoutes || []).catch(() => []);
+        recorded.forEach(route => routes.add(route));
+
+        // Go back to the original page before probing the next element
+        if (page.url() !== landingUrl) {
+          await this.load(page, url, probing);
+        }
+      }
+    } catch (error) {
+      logger.warn(`SPA route discovery failed for ${url}:`, error);
+    } finally {
+      await context?.close().catch(() => undefined);
+    }
+
+    const self = this.normalizer.normalize(url)?.normalized;
+    const found: PageUrl[] = [];
+    for (const route of routes) {
+      const normalized = this.normalizer.normalize(route);
+      if (normalized && normalized.normalized !== self) {
+        found.push({ ...normalized, source: 'spa' });
+      }
+    }
+
+    const deduplicated = this.normalizer.deduplicate(found);
+    logger.info(`SPA route discovery on ${url}: ${deduplicated.length} routes`);
+    return deduplicated;
+  }
+}
@@ -0,0 +1,149 @@
+import { URLNormalizer } from './url-normalizer.js';
+import { ImportedUrl, UrlListFormat } from '../types.js';
+
+export interface UrlListImport {
+  urls: ImportedUrl[];
+  rejected: Array<{ input: string; reason: string }>;
+}
+
+/**
+ * Guess the format of an uploaded list from its file name or content
+ */
+export function detectUrlListFormat(content: string, filename?: string): UrlListFormat {
+  const extension = filename?.split('.').pop()?.toLowerCase();
+  if (extension === 'har' || extension === 'json') return 'har';
+  if (extension === 'csv') return 'csv';
+  if (extension === 'txt') return 'text';
+
+  const trimmed = content.trimStart();
+  if (trimmed.startsWith('{')) return 'har';
+  const firstLine = trimmed.split(/\r?\n/, 1)[0] || '';
+  return firstLine.includes(',') ? 'csv' : 'text';
+}
+
+/**
+ * Split one CSV line, honouring double-quoted fields
+ */
+function splitCsvLine(line: string): string[] {
+  const fields: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      fields.push(field.trim());
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  fields.push(field.trim());
+  return fields;
+}
+
+/**
+ * CSV with url, weight and label columns. A header row is optional; when
+ * present it may list the columns in any order.
+ */
+function parseCsv(content: string): ImportedUrl[] {
+  const lines = content.split(/\r?\n/).filter(line => line.trim() !== '');
+  if (lines.length === 0) return [];
+
+  let columns = { url: 0, weight: 1, label: 2 };
+  const header = splitCsvLine(lines[0]).map(h => h.toLowerCase());
+  if (header.includes('url')) {
+    columns = { url: header.indexOf('url'), weight: header.indexOf('weight'), label: header.indexOf('label') };
+    lines.shift();
+  }
+
+  return lines.map(line => {
+    const fields = splitCsvLine(line);
+    const weight = columns.weight >= 0 ? parseFloat(fields[columns.weight]) : NaN;
+    const label = columns.label >= 0 ? fields[columns.label] : undefined;
+    return {
+      url: fields[columns.url] || '',
+      weight: isNaN(weight) ? undefined : weight,
+      label: label || undefined,
+    };
+  });
+}
+
+/**
+ * Document requests from a HAR export; assets and XHR are skipped
+ */
+function parseHar(content: string): ImportedUrl[] {
+  const har = JSON.parse(content);
+  const entries: any[] = har?.log?.entries || [];
+
+  return entries
+    .filter(entry => {
+      if ((entry.request?.method || 'GET') !== 'GET') return false;
+      if (entry._resourceType) return entry._resourceType === 'document';
+      return String(entry.response?.content?.mimeType || '').includes('html');
+    })
+    .map(entry => ({ url: String(entry.request.url) }));
+}
+
+function parseText(content: string): ImportedUrl[] {
+  return content
+    .split(/\r?\n/)
+    .map(line => line.trim())
+    .filter(line => line !== '' && !line.startsWith('#'))
+    .map(url => ({ url }));
+}
+
+/**
+ * Parse a URL list and validate every entry with the normalizer of the
+ * target domain. Accepted URLs are stored in normalized form; duplicates
+ * are merged and their weights added up.
+ */
+export function importUrlList(content: string, format: UrlListFormat, normalizer: URLNormalizer): UrlListImport {
+  let entries: ImportedUrl[];
+  try {
+    entries = format === 'csv' ? parseCsv(content) : format === 'har' ? parseHar(content) : parseText(content);
+  } catch (error) {
+    throw new Error(`Invalid ${format} file: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  const byUrl = new Map<string, ImportedUrl>();
+  const rejected: UrlListImport['rejected'] = [];
+
+  for (const entry of entries) {
+    const preview = normalizer.preview(entry.url);
+    if (!preview.accepted) {
+      rejected.push({ input: entry.url, reason: preview.reason || 'Rejected' });
+      continue;
+    }
+
+    const existing = byUrl.get(preview.normalized!);
+    if (existing) {
+      if (entry.weight !== undefined) existing.weight = (existing.weight || 0) + entry.weight;
+      existing.label = existing.label || entry.label;
+    } else {
+      byUrl.set(preview.normalized!, { ...entry, url: preview.normalized! });
+    }
+  }
+
+  return { urls: Array.from(byUrl.values()), rejected };
+}
+
+/**
+ * Add imported URLs to an existing set; entries of the new import win
+ */
+export function mergeUrlLists(existing: ImportedUrl[], added: ImportedUrl[]): ImportedUrl[] {
+  const byUrl = new Map(existing.map(u => [u.url, u]));
+  added.forEach(u => byUrl.set(u.url, u));
+  return Array.from(byUrl.values());
+}
@@ -1,16 +1,108 @@
 import URL from 'url';
-import { PageUrl } from '../types.js';
+import { PageUrl, QueryParamConfig, QueryParamRules } from '../types.js';
+
+export interface NormalizationPreview {
+  input: string;
+  accepted: boolean;
+  reason?: string;
+  url?: string;
+  normalized?: string;
+  removedParams: Array<{ name: string; reason: 'strip' | 'pagination' }>;
+  rules: QueryParamRules;
+}
+
+const EMPTY_RULES: QueryParamRules = {
+  strip: [],
+  keep: [],
+  pagination: [],
+  collapsePagination: false,
+};
+
+/**
+ * Merge the default query-parameter rules with the overrides for a domain
+ */
+export function resolveQueryParamRules(config: QueryParamConfig | undefined, domain: string): QueryParamRules {
+  if (!config) return EMPTY_RULES;
+
+  const base = { ...EMPTY_RULES, ...config.default };
+  const override = config.domains?.[domain];
+  if (!override) return base;
+
+  return {
+    strip: [...base.strip, ...(override.strip || [])],
+    keep: [...base.keep, ...(override.keep || [])],
+    pagination: override.pagination || base.pagination,
+    collapsePagination: override.collapsePagination ?? base.collapsePagination,
+  };
+}
 
 export class URLNormalizer {
   private domain: string;
   private excludedPatterns: RegExp[];
+  private rules: QueryParamRules;
+  private stripPatterns: RegExp[];
+  private keepPatterns: RegExp[];
+  private paginationPatterns: RegExp[];
 
-  constructor(domain: string, excludedPatterns: string[]) {
+  constructor(domain: string, excludedPatterns: string[], rules: QueryParamRules = EMPTY_RULES) {
     this.domain = domain;
     this.excludedPatterns = excludedPatterns.map(p => new RegExp(p, 'i'));
+    this.rules = rules;
+    this.stripPatterns = rules.strip.map(p => this.globToRegex(p));
+    this.keepPatterns = rules.keep.map(p => this.globToRegex(p));
+    this.paginationPatterns = rules.pagination.map(p => this.globToRegex(p));
   }
 
-  normalize(rawUrl: string, baseUrl?: string): PageUrl | null {
+  /**
+   * Convert a parameter name pattern such as "utm_*" to a RegExp
+   */
+  private globToRegex(pattern: string): RegExp {
+    const escaped = pattern
+      .split('*')
+      .map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+      .join('.*');
+    return new RegExp(`^${escaped}$`, 'i');
+  }
+
+  /**
+   * Apply the query-parameter rules to urlObj in place. "keep" wins over
+   * "strip"; pagination params are dropped only when collapsing is enabled.
+   */
+  private canonicalizeQuery(urlObj: URL.URL): Array<{ name: string; reason: 'strip' | 'pagination' }> {
+    const removed: Array<{ name: string; reason: 'strip' | 'pagination' }> = [];
+    const kept: Array<[string, string]> = [];
+
+    for (const [key, value] of urlObj.searchParams.entries()) {
+      const protectedParam = this.keepPatterns.some(p => p.test(key));
+      if (!protectedParam && this.stripPatterns.some(p => p.test(key))) {
+        removed.push({ name: key, reason: 'strip' });
+      } else if (
+        !protectedParam &&
+        this.rules.collapsePagination &&
+        this.paginationPatterns.some(p => p.test(key))
+      ) {
+        removed.push({ name: key, reason: 'pagination' });
+      } else {
+        kept.push([key, value]);
+      }
+    }
+
+    // Sort the remaining query parameters
+    kept.sort((a, b) => a[0].localeCompare(b[0]) || a[1].localeCompare(b[1]));
+    urlObj.search = '';
+    kept.forEach(([key, value]) => urlObj.searchParams.append(key, value));
+
+    return removed;
+  }
+
+  private resolve(rawUrl: string, baseUrl?: string): NormalizationPreview {
+    const preview: NormalizationPreview = {
+      input: rawUrl,
+      accepted: false,
+      removedParams: [],
+      rules: this.rules,
+    };
+
     try {
       let fullUrl: string;
 
@@ -25,39 +117,55 @@ export class URLNormalizer {
 
       // Check if same domain
       if (urlObj.hostname !== this.domain) {
-        return null;
+        preview.reason = `Different domain (${urlObj.hostname})`;
+        return preview;
       }
 
       // Check excluded patterns
       for (const pattern of this.excludedPatterns) {
         if (pattern.test(urlObj.pathname) || pattern.test(fullUrl)) {
-          return null;
+          preview.reason = `Excluded by pattern ${pattern.source}`;
+          return preview;
         }
       }
 
-      // Normalize: remove fragment, lowercase hostname, sort query params
+      // Normalize: remove fragment, lowercase hostname, canonicalize query params
       urlObj.hash = '';
       urlObj.hostname = urlObj.hostname.toLowerCase();
+      preview.removedParams = this.canonicalizeQuery(urlObj);
 
-      // Sort query parameters
-      if (urlObj.searchParams.toString()) {
-        const params = Array.from(urlObj.searchParams.entries()).sort((a, b) =>
-          a[0].localeCompare(b[0])
-        );
-        urlObj.search = '';
-        params.forEach(([key, value]) => urlObj.searchParams.append(key, value));
-      }
-
-      const normalized = urlObj.href;
-
-      return {
-        url: fullUrl,
-        domain: this.domain,
-        normalized,
-      };
+      preview.accepted = true;
+      preview.url = fullUrl;
+      preview.normalized = urlObj.href;
+      return preview;
     } catch (error) {
+      preview.reason = 'Invalid URL';
+      return preview;
+    }
+  }
+
+  /**
+   * Resolve and canonicalize a URL. The canonical form is also the URL that
+   * is visited and stored, so stripped parameters never reach the crawl.
+   */
+  normalize(rawUrl: string, baseUrl?: string): PageUrl | null {
+    const resolved = this.resolve(rawUrl, baseUrl);
+    if (!resolved.accepted) {
       return null;
     }
+
+    return {
+      url: resolved.normalized!,
+      domain: this.domain,
+      normalized: resolved.normalized!,
+    };
+  }
+
+  /**
+   * Show how a URL would be normalized, including why it was rejected
+   */
+  preview(rawUrl: string): NormalizationPreview {
+    return this.resolve(rawUrl);
   }
 
   deduplicate(urls: PageUrl[]): PageUrl[] {
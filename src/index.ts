@@ -6,13 +6,18 @@ import { fileURLToPath } from 'url';
 import { promises as fs } from 'fs';
 
 import { PageVisitor } from './crawler/page-visitor.js';
+import { SitemapDiscovery } from './crawler/sitemap-discovery.js';
+import { URLNormalizer, resolveQueryParamRules } from './crawler/url-normalizer.js';
+import { detectUrlListFormat, importUrlList } from './crawler/url-list-import.js';
 import { DOMAnalyzer } from './classifier/dom-analyzer.js';
 import { PageClusterEngine } from './classifier/page-cluster.js';
+import { CategoryRuleEngine } from './classifier/category-rules.js';
 import { Sampler } from './classifier/sampler.js';
 import { MultiViewportScanner } from './checker/multi-viewport-scanner.js';
 import { ResultStore } from './storage/result-store.js';
 import { Config, ScanReport } from './types.js';
-import { identifyPageType } from './utils/page-utils.js';
+import { resolveRequestProfile } from './utils/request-profile.js';
+import { HostScheduler } from './utils/host-scheduler.js';
 import logger from './utils/logger.js';
 
 const __filename = fileURLToPath(import.meta.url);
@@ -27,6 +32,8 @@ program
   .option('-d, --domain <domain>', 'Domain to scan (e.g., en.guazi.com)')
   .option('-m, --max-pages <number>', 'Maximum pages per category', '3')
   .option('-c, --concurrency <number>', 'Concurrent page visits', '3')
+  .option('--import-urls <file>', 'Import a CSV (url,weight,label), HAR or text URL list into a URL set and exit')
+  .option('--url-set <name>', 'Name of the URL set to import into (with --import-urls)')
   .option('-v, --verbose', 'Verbose logging');
 
 program.parse();
@@ -54,35 +61,62 @@ async function scanDomain(config: Config, domain: string): Promise<ScanReport> {
   logger.info(`Starting scan for domain: ${domain}`);
 
   const browser = await chromium.launch({ headless: true });
-  const pageVisitor = new PageVisitor(config);
+  const hostScheduler = new HostScheduler(config);
+  const pageVisitor = new PageVisitor(
+    config,
+    undefined,
+    resolveRequestProfile(config.requestProfiles, domain),
+    hostScheduler
+  );
   await pageVisitor.initialize();
 
-  const domAnalyzer = new DOMAnalyzer();
-  const cluster = new PageClusterEngine(config.similarityThreshold);
-  const sampler = new Sampler();
-  const scanner = new MultiViewportScanner(browser, config);
+  const sitemapDiscovery = new SitemapDiscovery(config);
+  const categoryRules = new CategoryRuleEngine(config.categoryRules);
+  const visualWeight = config.visualSimilarity.enabled ? config.visualSimilarity.weight : 0;
+  const domAnalyzer = new DOMAnalyzer(config.visualSimilarity, categoryRules.selectors);
+  const cluster = new PageClusterEngine(config.similarityThreshold, categoryRules, visualWeight, config.lsh);
+  const sampler = new Sampler(visualWeight);
+  const scanner = new MultiViewportScanner(browser, config, undefined, undefined, hostScheduler);
   const resultStore = new ResultStore(config.output.dataDir);
 
   const fingerprints: any[] = [];
   const allResults: any[] = [];
 
   try {
-    logger.info(`Step 1: Visiting homepage for ${domain}`);
-    const { page: homepage, links } = await pageVisitor.visitHomepage(domain);
-    logger.info(`Found ${links.length} unique links`);
-
-    const homepageFp = await domAnalyzer.analyze(homepage, `https://${domain}/`);
-    fingerprints.push(homepageFp);
-    await homepage.close();
-
-    logger.info(`Step 2: Analyzing DOM structure for ${links.length} pages`);
-
-    const visitPromises = links.map(async (link, idx) => {
+    logger.info(`Step 1: Crawling ${domain} (depth ${config.crawl.maxDepth}, max ${config.crawl.maxUrls} URLs)`);
+    const discovered = await pageVisitor.crawl(domain, async (page, entry) => {
+      const fp = await domAnalyzer.analyze(page, entry.url);
+      fingerprints.push({ ...fp, crawlDepth: entry.depth });
+    });
+    const { urls: sitemapUrls } = await sitemapDiscovery.discover(domain);
+    const merged = new URLNormalizer(
+      domain,
+      config.excludedPatterns,
+      resolveQueryParamRules(config.queryParams, domain)
+    ).deduplicate([...discovered, ...sitemapUrls]);
+    const crawledUrls = new Set(fingerprints.map(fp => fp.url));
+    const links = merged.filter(l => !crawledUrls.has(l.url));
+    logger.info(`Found ${merged.length} unique links (${fingerprints.length} crawled, ${sitemapUrls.length} from sitemaps)`);
+
+    // Fingerprint a few pages per URL template instead of every link
+    const { samplesPerTemplate, maxSamples, minVariants } = config.urlTemplates;
+    const plan = cluster.planFingerprinting(
+      links.map(l => l.url),
+      fingerprints,
+      samplesPerTemplate,
+      maxSamples,
+      minVariants
+    );
+    const linksByUrl = new Map(links.map(l => [l.url, l]));
+
+    logger.info(`Step 2: Analyzing DOM structure for ${plan.toVisit.length} pages (${plan.templates.length} URL templates)`);
+
+    const visitPromises = plan.toVisit.map(async (url) => {
       try {
-        const page = await pageVisitor.visitPage(link.url);
-        const fp = await domAnalyzer.analyze(page, link.url);
+        const page = await pageVisitor.visitPage(url);
+        const fp = await domAnalyzer.analyze(page, url);
         await page.close();
-        return fp;
+        return { ...fp, crawlDepth: linksByUrl.get(url)?.depth, urlTemplate: plan.templateOf.get(url) };
       } catch (error) {
         return null;
       }
@@ -105,7 +139,7 @@ async function scanDomain(config: Config, domain: string): Promise<ScanReport> {
 
     for (const pageFp of sampledPages) {
       try {
-        const pageType = identifyPageType(pageFp.url, config.pageTypePatterns);
+        const pageType = categoryRules.pageType(pageFp.url, pageFp);
         const pageCluster = clusters.find(c => c.members.includes(pageFp));
         const category = pageCluster?.category || 'other';
 
@@ -122,23 +156,54 @@ async function scanDomain(config: Config, domain: string): Promise<ScanReport> {
       totalPages: allResults.length,
       totalIssues: allResults.reduce((sum, r) => sum + r.issues.length, 0),
       categories: clusters.length,
+      urlTemplates: cluster.summarizeTemplates(plan.templates, fingerprints),
       pages: allResults,
     };
 
     await resultStore.saveResults(report);
 
+    await scanner.close();
     await pageVisitor.close();
     await browser.close();
 
     return report;
   } catch (error) {
     logger.error(`Failed to scan domain ${domain}:`, error);
+    await scanner.close();
     await pageVisitor.close();
     await browser.close();
     throw error;
   }
 }
 
+/**
+ * Validate a URL list file and store it as a named URL set in the server
+ * database, where scans and scheduled tasks can reference it
+ */
+async function importUrlSet(config: Config, file: string, name: string, domain: string): Promise<void> {
+  const content = await fs.readFile(file, 'utf-8');
+  const format = detectUrlListFormat(content, file);
+  const normalizer = new URLNormalizer(
+    domain,
+    config.excludedPatterns,
+    resolveQueryParamRules(config.queryParams, domain)
+  );
+  const { urls, rejected } = importUrlList(content, format, normalizer);
+
+  rejected.forEach(r => logger.warn(`Rejected ${r.input}: ${r.reason}`));
+
+  // Loaded lazily so scans do not need the native SQLite module
+  const { DatabaseManager } = await import('./server/database.js');
+  const db = new DatabaseManager(config.output.dataDir);
+  try {
+    db.saveUrlSet(name, domain, urls);
+  } finally {
+    db.close();
+  }
+
+  console.log(`\nImported ${urls.length} URLs into URL set "${name}" (${rejected.length} rejected)\n`);
+}
+
 async function main() {
   if (options.verbose) {
     logger.level = 'debug';
@@ -154,6 +219,14 @@ async function main() {
     await fs.mkdir(config.output.dataDir, { recursive: true });
     await fs.mkdir(config.output.logsDir, { recursive: true });
 
+    if (options.importUrls) {
+      if (!options.urlSet || !options.domain) {
+        throw new Error('--import-urls requires --url-set and --domain');
+      }
+      await importUrlSet(config, options.importUrls, options.urlSet, options.domain);
+      return;
+    }
+
     const reports: ScanReport[] = [];
 
     for (const domain of config.domains) {
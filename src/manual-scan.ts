@@ -36,6 +36,7 @@ async function main() {
   } catch (err) {
       console.error(err);
   } finally {
+      await scanner.close();
       await browser.close();
   }
 }
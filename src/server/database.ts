@@ -1,6 +1,8 @@
 import Database from 'better-sqlite3';
 import path from 'path';
 import { promises as fs } from 'fs';
+import { AuthCredentials, AuthProfileType, ClusterSignature, ClusterTree, ImportedUrl, LinkEdge, PageType, RequestProfile, UrlTemplateSummary } from '../types.js';
+import { decryptSecret, encryptSecret } from '../utils/secret-box.js';
 
 export interface TestRecord {
   id: number;
@@ -12,6 +14,10 @@ export interface TestRecord {
   categories: number;
   duration_ms: number;
   source?: 'manual' | 'scheduled';
+  sitemap_entries?: number;
+  sitemap_checked?: number;
+  // 0 when the sitemap was truncated and missing pages were not checked
+  sitemap_missing_checked?: number;
 }
 
 export interface PageRecord {
@@ -55,6 +61,10 @@ export interface PageRecord {
   };
   original_url?: string;
   original_domain?: string;
+  crawl_depth?: number;
+  redirect_chains?: Record<string, Array<{ url: string; status: number }>>;
+  attempts?: Record<string, number>;
+  cluster_id?: string;
 }
 
 export interface IssueRecord {
@@ -66,6 +76,81 @@ export interface IssueRecord {
   viewport: string;
 }
 
+export interface SitemapIssueRecord {
+  id: number;
+  test_id: number;
+  url: string;
+  type: string;
+  severity: 'error' | 'warning' | 'info';
+  message: string;
+  sitemap?: string;
+}
+
+export interface BrokenLinkRecord {
+  url: string;
+  status: number;
+  error?: string;
+  linked_from: string[];
+}
+
+export interface LocaleGapRecord {
+  url: string;
+  locale: string;
+}
+
+export interface UrlTemplateRecord {
+  template: string;
+  url_count: number;
+  fingerprinted: number;
+  examples: string[];
+}
+
+export interface ClusterRecord extends ClusterSignature {
+  domain: string;
+  first_test_id: number;
+  last_test_id: number;
+  created_at: number;
+  updated_at: number;
+}
+
+export interface ClusterHistoryEntry {
+  test_id: number;
+  timestamp: number;
+  pages: number;
+  issues: number;
+}
+
+export type ScanPhase = 'crawling' | 'analyzing' | 'scanning' | 'done';
+
+export interface SampledPageState {
+  url: string;
+  category: string;
+  pageType?: PageType;
+  crawlDepth?: number;
+  source?: string;
+  alternates?: Record<string, string>;
+  clusterId?: string;
+}
+
+export interface ScanStateRecord {
+  test_id: number;
+  domain: string;
+  options: any;
+  phase: ScanPhase;
+  sampled?: SampledPageState[];
+  categories: number;
+  updated_at: number;
+}
+
+export interface FrontierEntryRecord {
+  url: string;
+  normalized: string;
+  depth: number;
+  source?: string;
+  kind?: string;
+  status: 'queued' | 'discovered' | 'visited' | 'failed';
+}
+
 export interface ScheduledTaskRecord {
   id: number;
   name: string;
@@ -74,6 +159,27 @@ export interface ScheduledTaskRecord {
   enabled: number;
   last_run: number | null;
   next_run: number | null;
+  request_profile?: RequestProfile | null;
+  url_set?: string | null;
+  traffic_set?: string | null;
+  created_at: number;
+  updated_at: number;
+}
+
+export interface UrlSetRecord {
+  id: number;
+  name: string;
+  domain: string;
+  urls: ImportedUrl[];
+  created_at: number;
+  updated_at: number;
+}
+
+export interface AuthProfileRecord {
+  id: number;
+  domain: string;
+  type: AuthProfileType;
+  login_url_pattern: string | null;
   created_at: number;
   updated_at: number;
 }
@@ -209,6 +315,54 @@ export class DatabaseManager {
       // Column might already exist
     }
 
+    // Add crawl_depth column (link distance from the homepage)
+    try {
+      const columns = this.db.pragma('table_info(pages)') as any[];
+      const hasCrawlDepth = columns.some((col) => col.name === 'crawl_depth');
+
+      if (!hasCrawlDepth) {
+        this.db.exec('ALTER TABLE pages ADD COLUMN crawl_depth INTEGER');
+      }
+    } catch (error) {
+      // Column might already exist
+    }
+
+    // Add redirect_chains column (per-viewport redirect hops)
+    try {
+      const columns = this.db.pragma('table_info(pages)') as any[];
+      const hasRedirectChains = columns.some((col) => col.name === 'redirect_chains');
+
+      if (!hasRedirectChains) {
+        this.db.exec('ALTER TABLE pages ADD COLUMN redirect_chains TEXT');
+      }
+    } catch (error) {
+      // Column might already exist
+    }
+
+    // Add attempts column (per-viewport navigation attempts)
+    try {
+      const columns = this.db.pragma('table_info(pages)') as any[];
+      const hasAttempts = columns.some((col) => col.name === 'attempts');
+
+      if (!hasAttempts) {
+        this.db.exec('ALTER TABLE pages ADD COLUMN attempts TEXT');
+      }
+    } catch (error) {
+      // Column might already exist
+    }
+
+    // Add cluster_id column (stable cluster the page was sampled from)
+    try {
+      const columns = this.db.pragma('table_info(pages)') as any[];
+      const hasClusterId = columns.some((col) => col.name === 'cluster_id');
+
+      if (!hasClusterId) {
+        this.db.exec('ALTER TABLE pages ADD COLUMN cluster_id TEXT');
+      }
+    } catch (error) {
+      // Column might already exist
+    }
+
     // Issues table
     this.db.exec(`
       CREATE TABLE IF NOT EXISTS issues (
@@ -222,6 +376,156 @@ export class DatabaseManager {
       )
     `);
 
+    // Sitemap audit issues (per test, not tied to a scanned page)
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS sitemap_issues (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        test_id INTEGER NOT NULL,
+        url TEXT NOT NULL,
+        type TEXT NOT NULL,
+        severity TEXT NOT NULL,
+        message TEXT NOT NULL,
+        sitemap TEXT,
+        FOREIGN KEY (test_id) REFERENCES tests(id)
+      )
+    `);
+
+    // Scan state for resuming interrupted tests
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS scan_state (
+        test_id INTEGER PRIMARY KEY,
+        domain TEXT NOT NULL,
+        options TEXT,
+        phase TEXT NOT NULL,
+        sampled TEXT,
+        categories INTEGER DEFAULT 0,
+        updated_at INTEGER NOT NULL,
+        FOREIGN KEY (test_id) REFERENCES tests(id)
+      )
+    `);
+
+    // Crawl frontier and visited set
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS crawl_frontier (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        test_id INTEGER NOT NULL,
+        url TEXT NOT NULL,
+        normalized TEXT NOT NULL,
+        depth INTEGER NOT NULL,
+        source TEXT,
+        status TEXT NOT NULL,
+        UNIQUE (test_id, normalized),
+        FOREIGN KEY (test_id) REFERENCES tests(id)
+      )
+    `);
+
+    // Add kind column to crawl_frontier (element the URL was extracted from)
+    try {
+      const columns = this.db.pragma('table_info(crawl_frontier)') as any[];
+      const hasKind = columns.some((col) => col.name === 'kind');
+
+      if (!hasKind) {
+        this.db.exec('ALTER TABLE crawl_frontier ADD COLUMN kind TEXT');
+      }
+    } catch (error) {
+      // Column might already exist
+    }
+
+    // DOM fingerprints collected during crawl ('crawl') and analysis ('sample')
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS crawl_fingerprints (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        test_id INTEGER NOT NULL,
+        url TEXT NOT NULL,
+        stage TEXT NOT NULL,
+        data TEXT NOT NULL,
+        UNIQUE (test_id, url),
+        FOREIGN KEY (test_id) REFERENCES tests(id)
+      )
+    `);
+
+    // Internal link graph collected while crawling
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS link_edges (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        test_id INTEGER NOT NULL,
+        source_url TEXT NOT NULL,
+        target_url TEXT NOT NULL,
+        anchor_text TEXT NOT NULL DEFAULT '',
+        rel TEXT NOT NULL DEFAULT '',
+        UNIQUE (test_id, source_url, target_url, anchor_text, rel),
+        FOREIGN KEY (test_id) REFERENCES tests(id)
+      )
+    `);
+
+    // Broken link targets and the scanned pages linking to them
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS broken_links (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        test_id INTEGER NOT NULL,
+        url TEXT NOT NULL,
+        status INTEGER NOT NULL,
+        error TEXT,
+        source_url TEXT NOT NULL,
+        UNIQUE (test_id, url, source_url),
+        FOREIGN KEY (test_id) REFERENCES tests(id)
+      )
+    `);
+
+    // Sampled pages with no equivalent page on a tested locale
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS locale_gaps (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        test_id INTEGER NOT NULL,
+        url TEXT NOT NULL,
+        locale TEXT NOT NULL,
+        UNIQUE (test_id, url, locale),
+        FOREIGN KEY (test_id) REFERENCES tests(id)
+      )
+    `);
+
+    // URL templates inferred from the discovered URLs
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS url_templates (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        test_id INTEGER NOT NULL,
+        template TEXT NOT NULL,
+        url_count INTEGER NOT NULL,
+        fingerprinted INTEGER NOT NULL,
+        examples TEXT,
+        UNIQUE (test_id, template),
+        FOREIGN KEY (test_id) REFERENCES tests(id)
+      )
+    `);
+
+    // Page clusters kept across scans of a domain, matched by their signature
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS clusters (
+        id TEXT PRIMARY KEY,
+        domain TEXT NOT NULL,
+        category TEXT NOT NULL,
+        representative TEXT NOT NULL,
+        templates TEXT,
+        first_test_id INTEGER NOT NULL,
+        last_test_id INTEGER NOT NULL,
+        created_at INTEGER NOT NULL,
+        updated_at INTEGER NOT NULL
+      )
+    `);
+
+    // Dendrogram of each test's clustering and where it was cut
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS cluster_trees (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        test_id INTEGER NOT NULL UNIQUE,
+        threshold REAL NOT NULL,
+        suggested INTEGER NOT NULL,
+        silhouette REAL,
+        tree TEXT,
+        FOREIGN KEY (test_id) REFERENCES tests(id)
+      )
+    `);
+
     // Scheduled tasks table
     this.db.exec(`
       CREATE TABLE IF NOT EXISTS scheduled_tasks (
@@ -237,6 +541,31 @@ export class DatabaseManager {
       )
     `);
 
+    // Per-domain auth profiles; credentials are encrypted
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS auth_profiles (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        domain TEXT NOT NULL UNIQUE,
+        type TEXT NOT NULL,
+        login_url_pattern TEXT,
+        credentials TEXT NOT NULL,
+        created_at INTEGER NOT NULL,
+        updated_at INTEGER NOT NULL
+      )
+    `);
+
+    // Named URL lists imported from CSV, HAR or text files
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS url_sets (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        name TEXT NOT NULL UNIQUE,
+        domain TEXT NOT NULL,
+        urls TEXT NOT NULL,
+        created_at INTEGER NOT NULL,
+        updated_at INTEGER NOT NULL
+      )
+    `);
+
     // Global configuration table
     this.db.exec(`
       CREATE TABLE IF NOT EXISTS global_config (
@@ -280,6 +609,42 @@ export class DatabaseManager {
       // Column might already exist
     }
 
+    // Add request_profile column to scheduled_tasks table
+    try {
+      const columns = this.db.pragma('table_info(scheduled_tasks)') as any[];
+      const hasRequestProfile = columns.some((col) => col.name === 'request_profile');
+
+      if (!hasRequestProfile) {
+        this.db.exec('ALTER TABLE scheduled_tasks ADD COLUMN request_profile TEXT');
+      }
+    } catch (error) {
+      // Column might already exist
+    }
+
+    // Add url_set column to scheduled_tasks table
+    try {
+      const columns = this.db.pragma('table_info(scheduled_tasks)') as any[];
+      const hasUrlSet = columns.some((col) => col.name === 'url_set');
+
+      if (!hasUrlSet) {
+        this.db.exec('ALTER TABLE scheduled_tasks ADD COLUMN url_set TEXT');
+      }
+    } catch (error) {
+      // Column might already exist
+    }
+
+    // Add traffic_set column to scheduled_tasks table
+    try {
+      const columns = this.db.pragma('table_info(scheduled_tasks)') as any[];
+      const hasTrafficSet = columns.some((col) => col.name === 'traffic_set');
+
+      if (!hasTrafficSet) {
+        this.db.exec('ALTER TABLE scheduled_tasks ADD COLUMN traffic_set TEXT');
+      }
+    } catch (error) {
+      // Column might already exist
+    }
+
     // Add source column to tests table
     try {
       const columns = this.db.pragma('table_info(tests)') as any[];
@@ -292,6 +657,31 @@ export class DatabaseManager {
       // Column might already exist
     }
 
+    // Add sitemap audit counters to tests table
+    try {
+      const columns = this.db.pragma('table_info(tests)') as any[];
+      const hasSitemapEntries = columns.some((col) => col.name === 'sitemap_entries');
+
+      if (!hasSitemapEntries) {
+        this.db.exec('ALTER TABLE tests ADD COLUMN sitemap_entries INTEGER DEFAULT 0');
+        this.db.exec('ALTER TABLE tests ADD COLUMN sitemap_checked INTEGER DEFAULT 0');
+      }
+    } catch (error) {
+      // Column might already exist
+    }
+
+    // Add whether the sitemap audit looked for missing pages to tests table
+    try {
+      const columns = this.db.pragma('table_info(tests)') as any[];
+      const hasMissingChecked = columns.some((col) => col.name === 'sitemap_missing_checked');
+
+      if (!hasMissingChecked) {
+        this.db.exec('ALTER TABLE tests ADD COLUMN sitemap_missing_checked INTEGER DEFAULT 1');
+      }
+    } catch (error) {
+      // Column might already exist
+    }
+
     // Insert default multi-domain config if not exists
     let existingMultiDomainConfig = this.db.prepare('SELECT * FROM global_config WHERE key = ?').get('multi_domains') as any;
     if (!existingMultiDomainConfig) {
@@ -329,6 +719,15 @@ export class DatabaseManager {
       CREATE INDEX IF NOT EXISTS idx_tests_timestamp ON tests(timestamp);
       CREATE INDEX IF NOT EXISTS idx_pages_test_id ON pages(test_id);
       CREATE INDEX IF NOT EXISTS idx_issues_page_id ON issues(page_id);
+      CREATE INDEX IF NOT EXISTS idx_sitemap_issues_test_id ON sitemap_issues(test_id);
+      CREATE INDEX IF NOT EXISTS idx_crawl_frontier_test_id ON crawl_frontier(test_id);
+      CREATE INDEX IF NOT EXISTS idx_crawl_fingerprints_test_id ON crawl_fingerprints(test_id);
+      CREATE INDEX IF NOT EXISTS idx_link_edges_test_id ON link_edges(test_id);
+      CREATE INDEX IF NOT EXISTS idx_broken_links_test_id ON broken_links(test_id);
+      CREATE INDEX IF NOT EXISTS idx_locale_gaps_test_id ON locale_gaps(test_id);
+      CREATE INDEX IF NOT EXISTS idx_url_templates_test_id ON url_templates(test_id);
+      CREATE INDEX IF NOT EXISTS idx_clusters_domain ON clusters(domain);
+      CREATE INDEX IF NOT EXISTS idx_pages_cluster_id ON pages(cluster_id);
       CREATE INDEX IF NOT EXISTS idx_scheduled_tasks_enabled ON scheduled_tasks(enabled);
     `);
   }
@@ -368,6 +767,18 @@ export class DatabaseManager {
       fields.push('duration_ms = ?');
       values.push(data.duration_ms);
     }
+    if (data.sitemap_entries !== undefined) {
+      fields.push('sitemap_entries = ?');
+      values.push(data.sitemap_entries);
+    }
+    if (data.sitemap_checked !== undefined) {
+      fields.push('sitemap_checked = ?');
+      values.push(data.sitemap_checked);
+    }
+    if (data.sitemap_missing_checked !== undefined) {
+      fields.push('sitemap_missing_checked = ?');
+      values.push(data.sitemap_missing_checked);
+    }
 
     if (fields.length > 0) {
       values.push(testId);
@@ -393,8 +804,8 @@ export class DatabaseManager {
   // Page operations
   createPage(page: Omit<PageRecord, 'id'>): number {
     const stmt = this.db.prepare(`
-      INSERT INTO pages (test_id, url, domain, page_type, category, status, issues_count, screenshots, screenshot_issues, load_time, http_status, request_ids, seo, original_url, original_domain)
-      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      INSERT INTO pages (test_id, url, domain, page_type, category, status, issues_count, screenshots, screenshot_issues, load_time, http_status, request_ids, seo, original_url, original_domain, crawl_depth, redirect_chains, attempts, cluster_id)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
     `);
     const result = stmt.run(
       page.test_id,
@@ -411,7 +822,11 @@ export class DatabaseManager {
       page.request_ids ? JSON.stringify(page.request_ids) : null,
       page.seo ? JSON.stringify(page.seo) : null,
       page.original_url || null,
-      page.original_domain || null
+      page.original_domain || null,
+      page.crawl_depth ?? null,
+      page.redirect_chains ? JSON.stringify(page.redirect_chains) : null,
+      page.attempts ? JSON.stringify(page.attempts) : null,
+      page.cluster_id || null
     );
     return result.lastInsertRowid as number;
   }
@@ -424,7 +839,9 @@ export class DatabaseManager {
       screenshots: JSON.parse(row.screenshots || '{}'),
       screenshot_issues: row.screenshot_issues ? JSON.parse(row.screenshot_issues) : undefined,
       request_ids: row.request_ids ? JSON.parse(row.request_ids) : undefined,
-      seo: row.seo ? JSON.parse(row.seo) : undefined
+      seo: row.seo ? JSON.parse(row.seo) : undefined,
+      redirect_chains: row.redirect_chains ? JSON.parse(row.redirect_chains) : undefined,
+      attempts: row.attempts ? JSON.parse(row.attempts) : undefined
     }));
   }
 
@@ -449,6 +866,269 @@ export class DatabaseManager {
     return stmt.all(pageId) as IssueRecord[];
   }
 
+  // Sitemap issue operations
+  createSitemapIssue(issue: Omit<SitemapIssueRecord, 'id'>): number {
+    const stmt = this.db.prepare(`
+      INSERT INTO sitemap_issues (test_id, url, type, severity, message, sitemap)
+      VALUES (?, ?, ?, ?, ?, ?)
+    `);
+    const result = stmt.run(
+      issue.test_id,
+      issue.url,
+      issue.type,
+      issue.severity,
+      issue.message,
+      issue.sitemap || null
+    );
+    return result.lastInsertRowid as number;
+  }
+
+  deleteSitemapIssuesByTest(testId: number): void {
+    this.db.prepare('DELETE FROM sitemap_issues WHERE test_id = ?').run(testId);
+  }
+
+  getSitemapIssuesByTest(testId: number): SitemapIssueRecord[] {
+    const stmt = this.db.prepare('SELECT * FROM sitemap_issues WHERE test_id = ?');
+    return stmt.all(testId) as SitemapIssueRecord[];
+  }
+
+  // Scan state operations
+  saveScanState(state: Omit<ScanStateRecord, 'updated_at'>): void {
+    const stmt = this.db.prepare(`
+      INSERT INTO scan_state (test_id, domain, options, phase, sampled, categories, updated_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?)
+      ON CONFLICT(test_id) DO UPDATE SET
+        phase = excluded.phase,
+        sampled = excluded.sampled,
+        categories = excluded.categories,
+        updated_at = excluded.updated_at
+    `);
+    stmt.run(
+      state.test_id,
+      state.domain,
+      JSON.stringify(state.options || {}),
+      state.phase,
+      state.sampled ? JSON.stringify(state.sampled) : null,
+      state.categories,
+      Date.now()
+    );
+  }
+
+  getScanState(testId: number): ScanStateRecord | undefined {
+    const stmt = this.db.prepare('SELECT * FROM scan_state WHERE test_id = ?');
+    const row = stmt.get(testId) as any;
+    if (!row) return undefined;
+    return {
+      ...row,
+      options: row.options ? JSON.parse(row.options) : {},
+      sampled: row.sampled ? JSON.parse(row.sampled) : undefined,
+    };
+  }
+
+  saveFrontierEntry(testId: number, entry: Omit<FrontierEntryRecord, 'status'>, status: FrontierEntryRecord['status']): void {
+    const stmt = this.db.prepare(`
+      INSERT INTO crawl_frontier (test_id, url, normalized, depth, source, kind, status)
+      VALUES (?, ?, ?, ?, ?, ?, ?)
+      ON CONFLICT(test_id, normalized) DO UPDATE SET status = excluded.status
+    `);
+    stmt.run(testId, entry.url, entry.normalized, entry.depth, entry.source || null, entry.kind || null, status);
+  }
+
+  getFrontier(testId: number): FrontierEntryRecord[] {
+    const stmt = this.db.prepare(
+      'SELECT url, normalized, depth, source, kind, status FROM crawl_frontier WHERE test_id = ? ORDER BY id'
+    );
+    return stmt.all(testId) as FrontierEntryRecord[];
+  }
+
+  saveFingerprint(testId: number, fingerprint: { url: string }, stage: 'crawl' | 'sample'): void {
+    const stmt = this.db.prepare(`
+      INSERT INTO crawl_fingerprints (test_id, url, stage, data)
+      VALUES (?, ?, ?, ?)
+      ON CONFLICT(test_id, url) DO UPDATE SET data = excluded.data
+    `);
+    stmt.run(testId, fingerprint.url, stage, JSON.stringify(fingerprint));
+  }
+
+  getFingerprints(testId: number): Array<{ stage: 'crawl' | 'sample'; fingerprint: any }> {
+    const stmt = this.db.prepare('SELECT stage, data FROM crawl_fingerprints WHERE test_id = ? ORDER BY id');
+    const rows = stmt.all(testId) as any[];
+    return rows.map(row => ({ stage: row.stage, fingerprint: JSON.parse(row.data) }));
+  }
+
+  // Link graph operations
+  saveLinkEdges(testId: number, edges: LinkEdge[]): void {
+    const stmt = this.db.prepare(`
+      INSERT OR IGNORE INTO link_edges (test_id, source_url, target_url, anchor_text, rel)
+      VALUES (?, ?, ?, ?, ?)
+    `);
+    const insertAll = this.db.transaction((items: LinkEdge[]) => {
+      for (const edge of items) {
+        stmt.run(testId, edge.source, edge.target, edge.anchorText, edge.rel || '');
+      }
+    });
+    insertAll(edges);
+  }
+
+  getLinkEdges(testId: number): LinkEdge[] {
+    const stmt = this.db.prepare(
+      'SELECT source_url, target_url, anchor_text, rel FROM link_edges WHERE test_id = ? ORDER BY id'
+    );
+    const rows = stmt.all(testId) as any[];
+    return rows.map(row => ({
+      source: row.source_url,
+      target: row.target_url,
+      anchorText: row.anchor_text,
+      rel: row.rel || undefined,
+    }));
+  }
+
+  // Broken link operations
+  saveBrokenLinks(testId: number, sourceUrl: string, links: Array<{ url: string; status: number; error?: string }>): void {
+    const stmt = this.db.prepare(`
+      INSERT OR IGNORE INTO broken_links (test_id, url, status, error, source_url)
+      VALUES (?, ?, ?, ?, ?)
+    `);
+    const insertAll = this.db.transaction(() => {
+      for (const link of links) {
+        stmt.run(testId, link.url, link.status, link.error || null, sourceUrl);
+      }
+    });
+    insertAll();
+  }
+
+  /**
+   * Broken targets of a test, each with the pages that link to it
+   */
+  getBrokenLinksByTest(testId: number): BrokenLinkRecord[] {
+    const stmt = this.db.prepare('SELECT url, status, error, source_url FROM broken_links WHERE test_id = ? ORDER BY id');
+    const rows = stmt.all(testId) as any[];
+
+    const byUrl = new Map<string, BrokenLinkRecord>();
+    for (const row of rows) {
+      if (!byUrl.has(row.url)) {
+        byUrl.set(row.url, { url: row.url, status: row.status, error: row.error || undefined, linked_from: [] });
+      }
+      byUrl.get(row.url)!.linked_from.push(row.source_url);
+    }
+    return Array.from(byUrl.values());
+  }
+
+  // Locale gap operations
+  saveLocaleGap(testId: number, url: string, locale: string): void {
+    const stmt = this.db.prepare('INSERT OR IGNORE INTO locale_gaps (test_id, url, locale) VALUES (?, ?, ?)');
+    stmt.run(testId, url, locale);
+  }
+
+  getLocaleGapsByTest(testId: number): LocaleGapRecord[] {
+    const stmt = this.db.prepare('SELECT url, locale FROM locale_gaps WHERE test_id = ? ORDER BY id');
+    return stmt.all(testId) as LocaleGapRecord[];
+  }
+
+  // URL template operations
+  /**
+   * Replace the URL templates of a test; a resumed analysis recomputes them
+   */
+  saveUrlTemplates(testId: number, templates: UrlTemplateSummary[]): void {
+    const stmt = this.db.prepare(`
+      INSERT INTO url_templates (test_id, template, url_count, fingerprinted, examples)
+      VALUES (?, ?, ?, ?, ?)
+    `);
+    const replaceAll = this.db.transaction(() => {
+      this.db.prepare('DELETE FROM url_templates WHERE test_id = ?').run(testId);
+      for (const t of templates) {
+        stmt.run(testId, t.template, t.urlCount, t.fingerprinted, JSON.stringify(t.examples));
+      }
+    });
+    replaceAll();
+  }
+
+  getUrlTemplatesByTest(testId: number): UrlTemplateRecord[] {
+    const stmt = this.db.prepare(
+      'SELECT template, url_count, fingerprinted, examples FROM url_templates WHERE test_id = ? ORDER BY url_count DESC, id'
+    );
+    const rows = stmt.all(testId) as any[];
+    return rows.map(row => ({
+      ...row,
+      examples: JSON.parse(row.examples || '[]'),
+    }));
+  }
+
+  // Cluster operations
+  getClusters(domain: string): ClusterRecord[] {
+    const stmt = this.db.prepare('SELECT * FROM clusters WHERE domain = ? ORDER BY created_at');
+    const rows = stmt.all(domain) as any[];
+    return rows.map(row => ({
+      ...row,
+      representative: JSON.parse(row.representative),
+      templates: JSON.parse(row.templates || '[]'),
+    }));
+  }
+
+  /**
+   * Insert new clusters and refresh the signature of matched ones
+   */
+  saveClusters(domain: string, testId: number, signatures: ClusterSignature[]): void {
+    const now = Date.now();
+    const stmt = this.db.prepare(`
+      INSERT INTO clusters (id, domain, category, representative, templates, first_test_id, last_test_id, created_at, updated_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+      ON CONFLICT(id) DO UPDATE SET
+        category = excluded.category,
+        representative = excluded.representative,
+        templates = excluded.templates,
+        last_test_id = excluded.last_test_id,
+        updated_at = excluded.updated_at
+    `);
+    const saveAll = this.db.transaction(() => {
+      for (const s of signatures) {
+        stmt.run(s.id, domain, s.category, JSON.stringify(s.representative), JSON.stringify(s.templates), testId, testId, now, now);
+      }
+    });
+    saveAll();
+  }
+
+  /**
+   * Replace the cluster tree of a test; a resumed analysis clusters again
+   */
+  saveClusterTree(testId: number, tree: ClusterTree): void {
+    const stmt = this.db.prepare(`
+      INSERT INTO cluster_trees (test_id, threshold, suggested, silhouette, tree)
+      VALUES (?, ?, ?, ?, ?)
+      ON CONFLICT(test_id) DO UPDATE SET
+        threshold = excluded.threshold,
+        suggested = excluded.suggested,
+        silhouette = excluded.silhouette,
+        tree = excluded.tree
+    `);
+    stmt.run(testId, tree.threshold, tree.suggested ? 1 : 0, tree.silhouette ?? null, tree.root ? JSON.stringify(tree.root) : null);
+  }
+
+  getClusterTree(testId: number): ClusterTree | undefined {
+    const row = this.db.prepare('SELECT * FROM cluster_trees WHERE test_id = ?').get(testId) as any;
+    if (!row) return undefined;
+    return {
+      threshold: row.threshold,
+      suggested: row.suggested === 1,
+      silhouette: row.silhouette ?? undefined,
+      root: row.tree ? JSON.parse(row.tree) : null,
+    };
+  }
+
+  /**
+   * Pages and issues per test for one cluster, oldest test first
+   */
+  getClusterHistory(clusterId: string): ClusterHistoryEntry[] {
+    const stmt = this.db.prepare(`
+      SELECT p.test_id, t.timestamp, COUNT(*) AS pages, SUM(p.issues_count) AS issues
+      FROM pages p JOIN tests t ON t.id = p.test_id
+      WHERE p.cluster_id = ?
+      GROUP BY p.test_id
+      ORDER BY t.timestamp
+    `);
+    return stmt.all(clusterId) as ClusterHistoryEntry[];
+  }
+
   getDb(): Database.Database {
     return this.db;
   }
@@ -464,6 +1144,24 @@ export class DatabaseManager {
     const stmtDeleteIssues = this.db.prepare('DELETE FROM issues WHERE page_id IN (SELECT id FROM pages WHERE test_id = ?)');
     stmtDeleteIssues.run(testId);
 
+    // Delete resume state
+    this.db.prepare('DELETE FROM scan_state WHERE test_id = ?').run(testId);
+    this.db.prepare('DELETE FROM crawl_frontier WHERE test_id = ?').run(testId);
+    this.db.prepare('DELETE FROM crawl_fingerprints WHERE test_id = ?').run(testId);
+
+    // Delete link graph and broken links
+    this.db.prepare('DELETE FROM link_edges WHERE test_id = ?').run(testId);
+    this.db.prepare('DELETE FROM broken_links WHERE test_id = ?').run(testId);
+
+    // Delete locale gaps, URL templates and the cluster tree
+    this.db.prepare('DELETE FROM locale_gaps WHERE test_id = ?').run(testId);
+    this.db.prepare('DELETE FROM url_templates WHERE test_id = ?').run(testId);
+    this.db.prepare('DELETE FROM cluster_trees WHERE test_id = ?').run(testId);
+
+    // Delete sitemap audit issues
+    const stmtDeleteSitemapIssues = this.db.prepare('DELETE FROM sitemap_issues WHERE test_id = ?');
+    stmtDeleteSitemapIssues.run(testId);
+
     // Delete pages
     const stmtDeletePages = this.db.prepare('DELETE FROM pages WHERE test_id = ?');
     stmtDeletePages.run(testId);
@@ -505,24 +1203,48 @@ export class DatabaseManager {
   }
 
   // Scheduled Task operations
-  createScheduledTask(name: string, domain: string, cronExpression: string): number {
+  createScheduledTask(
+    name: string,
+    domain: string,
+    cronExpression: string,
+    requestProfile?: RequestProfile,
+    urlSet?: string,
+    trafficSet?: string
+  ): number {
     const now = Date.now();
     const stmt = this.db.prepare(`
-      INSERT INTO scheduled_tasks (name, domain, cron_expression, enabled, created_at, updated_at)
-      VALUES (?, ?, ?, 1, ?, ?)
+      INSERT INTO scheduled_tasks (name, domain, cron_expression, enabled, request_profile, url_set, traffic_set, created_at, updated_at)
+      VALUES (?, ?, ?, 1, ?, ?, ?, ?, ?)
     `);
-    const result = stmt.run(name, domain, cronExpression, now, now);
+    const result = stmt.run(
+      name,
+      domain,
+      cronExpression,
+      requestProfile ? JSON.stringify(requestProfile) : null,
+      urlSet || null,
+      trafficSet || null,
+      now,
+      now
+    );
     return result.lastInsertRowid as number;
   }
 
+  private parseScheduledTask(row: any): ScheduledTaskRecord {
+    return {
+      ...row,
+      request_profile: row.request_profile ? JSON.parse(row.request_profile) : null,
+    };
+  }
+
   getScheduledTasks(): ScheduledTaskRecord[] {
     const stmt = this.db.prepare('SELECT * FROM scheduled_tasks ORDER BY created_at DESC');
-    return stmt.all() as ScheduledTaskRecord[];
+    return (stmt.all() as any[]).map(row => this.parseScheduledTask(row));
   }
 
   getScheduledTask(id: number): ScheduledTaskRecord | undefined {
     const stmt = this.db.prepare('SELECT * FROM scheduled_tasks WHERE id = ?');
-    return stmt.get(id) as ScheduledTaskRecord | undefined;
+    const row = stmt.get(id) as any;
+    return row ? this.parseScheduledTask(row) : undefined;
   }
 
   updateScheduledTask(id: number, data: Partial<ScheduledTaskRecord>): void {
@@ -553,6 +1275,18 @@ export class DatabaseManager {
       fields.push('next_run = ?');
       values.push(data.next_run);
     }
+    if (data.request_profile !== undefined) {
+      fields.push('request_profile = ?');
+      values.push(data.request_profile ? JSON.stringify(data.request_profile) : null);
+    }
+    if (data.url_set !== undefined) {
+      fields.push('url_set = ?');
+      values.push(data.url_set || null);
+    }
+    if (data.traffic_set !== undefined) {
+      fields.push('traffic_set = ?');
+      values.push(data.traffic_set || null);
+    }
 
     if (fields.length > 0) {
       fields.push('updated_at = ?');
@@ -570,6 +1304,41 @@ export class DatabaseManager {
     stmt.run(id);
   }
 
+  // URL set operations
+  /**
+   * Create or replace a named URL set
+   */
+  saveUrlSet(name: string, domain: string, urls: ImportedUrl[]): void {
+    const now = Date.now();
+    const stmt = this.db.prepare(`
+      INSERT INTO url_sets (name, domain, urls, created_at, updated_at)
+      VALUES (?, ?, ?, ?, ?)
+      ON CONFLICT(name) DO UPDATE SET domain = excluded.domain, urls = excluded.urls, updated_at = excluded.updated_at
+    `);
+    stmt.run(name, domain, JSON.stringify(urls), now, now);
+  }
+
+  getUrlSet(name: string): UrlSetRecord | undefined {
+    const row = this.db.prepare('SELECT * FROM url_sets WHERE name = ?').get(name) as any;
+    return row ? { ...row, urls: JSON.parse(row.urls) } : undefined;
+  }
+
+  /**
+   * All URL sets without their URLs
+   */
+  getUrlSets(): Array<Omit<UrlSetRecord, 'urls'> & { url_count: number }> {
+    const stmt = this.db.prepare(`
+      SELECT id, name, domain, json_array_length(urls) AS url_count, created_at, updated_at
+      FROM url_sets ORDER BY name
+    `);
+    return stmt.all() as Array<Omit<UrlSetRecord, 'urls'> & { url_count: number }>;
+  }
+
+  deleteUrlSet(name: string): void {
+    const stmt = this.db.prepare('DELETE FROM url_sets WHERE name = ?');
+    stmt.run(name);
+  }
+
   // Global Config operations
   getGlobalConfig(key: string): string | null {
     const stmt = this.db.prepare('SELECT value FROM global_config WHERE key = ?');
@@ -602,6 +1371,43 @@ export class DatabaseManager {
     this.setGlobalConfig('custom_urls', JSON.stringify(urls));
   }
 
+  // Auth profile operations
+  saveAuthProfile(domain: string, type: AuthProfileType, credentials: AuthCredentials, loginUrlPattern?: string): void {
+    const now = Date.now();
+    const stmt = this.db.prepare(`
+      INSERT INTO auth_profiles (domain, type, login_url_pattern, credentials, created_at, updated_at)
+      VALUES (?, ?, ?, ?, ?, ?)
+      ON CONFLICT(domain) DO UPDATE SET
+        type = excluded.type,
+        login_url_pattern = excluded.login_url_pattern,
+        credentials = excluded.credentials,
+        updated_at = excluded.updated_at
+    `);
+    stmt.run(domain, type, loginUrlPattern || null, encryptSecret(JSON.stringify(credentials)), now, now);
+  }
+
+  /**
+   * List auth profiles without their credentials
+   */
+  getAuthProfiles(): AuthProfileRecord[] {
+    const stmt = this.db.prepare(
+      'SELECT id, domain, type, login_url_pattern, created_at, updated_at FROM auth_profiles ORDER BY domain'
+    );
+    return stmt.all() as AuthProfileRecord[];
+  }
+
+  getAuthProfile(domain: string): (AuthProfileRecord & { credentials: AuthCredentials }) | undefined {
+    const stmt = this.db.prepare('SELECT * FROM auth_profiles WHERE domain = ?');
+    const row = stmt.get(domain) as any;
+    if (!row) return undefined;
+    return { ...row, credentials: JSON.parse(decryptSecret(row.credentials)) };
+  }
+
+  deleteAuthProfile(domain: string): void {
+    const stmt = this.db.prepare('DELETE FROM auth_profiles WHERE domain = ?');
+    stmt.run(domain);
+  }
+
   // Multi-domain operations
   getMultiDomainsConfig(): any {
     const value = this.getGlobalConfig('multi_domains');
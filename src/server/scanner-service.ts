@@ -1,16 +1,24 @@
-import { chromium } from 'playwright';
+import { Browser, chromium } from 'playwright';
 import { promises as fs } from 'fs';
 import path from 'path';
 
 import { PageVisitor } from '../crawler/page-visitor.js';
+import { FrontierStore } from '../crawler/crawl-frontier.js';
+import { SitemapDiscovery } from '../crawler/sitemap-discovery.js';
+import { AuthSession, createAuthSession } from '../crawler/auth-session.js';
+import { resolveLocaleUrl } from '../crawler/locale-mapper.js';
+import { URLNormalizer, resolveQueryParamRules } from '../crawler/url-normalizer.js';
 import { DOMAnalyzer } from '../classifier/dom-analyzer.js';
 import { PageClusterEngine } from '../classifier/page-cluster.js';
+import { CategoryRuleEngine } from '../classifier/category-rules.js';
 import { SmartSampler } from '../classifier/smart-sampler.js';
 import { MultiViewportScanner } from '../checker/multi-viewport-scanner.js';
-import { DatabaseManager } from './database.js';
+import { SitemapAuditor } from '../checker/sitemap-auditor.js';
+import { DatabaseManager, SampledPageState } from './database.js';
 import { progressManager } from './progress-manager.js';
-import { Config } from '../types.js';
-import { identifyPageType } from '../utils/page-utils.js';
+import { Config, LinkKind, RequestProfile, UrlSource } from '../types.js';
+import { resolveRequestProfile } from '../utils/request-profile.js';
+import { HostScheduler } from '../utils/host-scheduler.js';
 import { ProgressTracker } from '../utils/progress.js';
 import { screenshotAnalyzer } from '../utils/screenshot-analyzer.js';
 import logger from '../utils/logger.js';
@@ -19,30 +27,61 @@ export interface ScanOptions {
   customUrls?: string[];
   domains?: string[];  // Multiple domains to test (e.g., ['en', 'ru', 'ar', 'fr'])
   source?: 'manual' | 'scheduled';
+  resumeTestId?: number;  // Continue an interrupted test instead of creating a new one
+  requestProfile?: RequestProfile;  // Overrides config.requestProfiles for this scan
+  urlSet?: string;  // Name of an imported URL set whose URLs are added as custom URLs
+  trafficSet?: string;  // Name of an imported URL set whose weights steer sampling
 }
 
-// Helper function to replace domain in URL
-function replaceDomainInUrl(url: string, oldDomain: string, newDomain: string): string {
-  // Handle URLs like https://en.guazi.com/path
-  const urlObj = new URL(url);
-  const hostname = urlObj.hostname;
-
-  // Extract the domain prefix and base domain
-  // For example: en.guazi.com -> prefix='en', base='guazi.com'
-  const parts = hostname.split('.');
-  if (parts.length >= 2) {
-    const baseDomain = parts.slice(1).join('.');  // guazi.com
-    urlObj.hostname = `${newDomain}.${baseDomain}`;  // ru.guazi.com
+/**
+ * Log in with the auth profiles of the scanned hosts. A profile that cannot
+ * be loaded or fails to log in is skipped, so those pages are scanned anonymously.
+ */
+async function loadAuthSessions(
+  browser: Browser,
+  db: DatabaseManager,
+  config: Config,
+  hosts: string[],
+  testId: number
+): Promise<Map<string, AuthSession>> {
+  const sessions = new Map<string, AuthSession>();
+
+  for (const host of new Set(hosts)) {
+    try {
+      const profile = db.getAuthProfile(host);
+      if (!profile) continue;
+
+      const session = await createAuthSession(browser, {
+        domain: host,
+        type: profile.type,
+        loginUrlPattern: profile.login_url_pattern || undefined,
+        credentials: profile.credentials,
+      }, config);
+      sessions.set(host, session);
+      progressManager.addLog(testId, `🔑 Using ${profile.type} auth profile for ${host}`);
+    } catch (error) {
+      logger.error(`Failed to apply auth profile for ${host}:`, error);
+      progressManager.addLog(testId, `⚠️ Auth profile for ${host} failed, scanning anonymously`);
+    }
   }
 
-  return urlObj.toString();
+  return sessions;
 }
 
 export async function runScan(domain: string, db: DatabaseManager, options?: ScanOptions): Promise<void> {
   // Get custom URLs from global config if not provided in options
   const customUrlsFromOptions = options?.customUrls || [];
   const customUrlsFromGlobal = db.getCustomUrls() || [];
-  const allCustomUrls = [...new Set([...customUrlsFromOptions, ...customUrlsFromGlobal])]; // Merge and deduplicate
+  const urlSet = options?.urlSet ? db.getUrlSet(options.urlSet) : undefined;
+  if (options?.urlSet && !urlSet) {
+    logger.warn(`URL set ${options.urlSet} not found, scanning without it`);
+  }
+  const customUrlsFromSet = urlSet?.urls.map(u => u.url) || [];
+  const trafficSet = options?.trafficSet ? db.getUrlSet(options.trafficSet) : undefined;
+  if (options?.trafficSet && !trafficSet) {
+    logger.warn(`Traffic set ${options.trafficSet} not found, sampling without traffic weights`);
+  }
+  const allCustomUrls = [...new Set([...customUrlsFromOptions, ...customUrlsFromGlobal, ...customUrlsFromSet])]; // Merge and deduplicate
 
   // Get multi-domain config
   const multiDomainConfig = db.getMultiDomainsConfig();
@@ -54,7 +93,10 @@ export async function runScan(domain: string, db: DatabaseManager, options?: Sca
   const mergedOptions: ScanOptions = {
     customUrls: allCustomUrls,
     domains: domainsToTest,
-    source: options?.source || 'manual'
+    source: options?.source || 'manual',
+    requestProfile: options?.requestProfile,
+    urlSet: options?.urlSet,
+    trafficSet: options?.trafficSet,
   };
 
   // Log which domains will be tested
@@ -69,6 +111,8 @@ export async function runScan(domain: string, db: DatabaseManager, options?: Sca
   const TIMEOUT_MS = 20 * 60 * 1000;
   let timeoutTimer: NodeJS.Timeout | null = null;
   let isScanComplete = false;
+  // Aborted on timeout so the run stops instead of recording failures from the closed browser
+  const abort = new AbortController();
 
   try {
     progress.info('='.repeat(60));
@@ -79,6 +123,7 @@ export async function runScan(domain: string, db: DatabaseManager, options?: Sca
     // Set timeout timer
     timeoutTimer = setTimeout(() => {
       if (!isScanComplete) {
+        abort.abort(new Error(`Scan timeout after ${TIMEOUT_MS / 60000} minutes`));
         progress.error(`Scan timeout after ${TIMEOUT_MS / 60000} minutes`);
         progressManager.updateStep(testId, 0, 0, `⏱️ Timeout: Scan exceeded ${TIMEOUT_MS / 60000} minutes`);
         progressManager.completeScan(testId, false);
@@ -93,9 +138,9 @@ export async function runScan(domain: string, db: DatabaseManager, options?: Sca
         pageVisitor.close().catch(err => logger.error('Error closing page visitor:', err));
 
         // Just log the timeout, don't exit the process
-        progress.error(`Scan ${domain} terminated due to timeout. Server continues running.`);
+        progress.error(`Scan ${domain} terminated due to timeout. It can be resumed. Server continues running.`);
 
-        // Don't call process.exit() - let the function return naturally
+        // Don't call process.exit() - the aborted run throws out of runScan
       }
     }, TIMEOUT_MS);
 
@@ -103,161 +148,340 @@ export async function runScan(domain: string, db: DatabaseManager, options?: Sca
     const configContent = await fs.readFile(configPath, 'utf-8');
     const config: Config = JSON.parse(configContent);
 
-    const testId = db.createTest(domain, domainsToTest, mergedOptions.source);
-    progress.info(`Created test record ID: ${testId} (Source: ${mergedOptions.source})`);
+    const resumeState = options?.resumeTestId ? db.getScanState(options.resumeTestId) : undefined;
+    let testId: number;
+    if (resumeState) {
+      testId = resumeState.test_id;
+      db.updateTest(testId, { status: 'running' });
+      progress.info(`Resuming test record ID: ${testId} (phase: ${resumeState.phase})`);
+    } else {
+      testId = db.createTest(domain, domainsToTest, mergedOptions.source);
+      db.saveScanState({ test_id: testId, domain, options: mergedOptions, phase: 'crawling', categories: 0 });
+      progress.info(`Created test record ID: ${testId} (Source: ${mergedOptions.source})`);
+    }
 
     // Initialize progress manager
     progressManager.createScan(testId, domain);
 
     const browser = await chromium.launch({ headless: true });
-    const pageVisitor = new PageVisitor(config);
+    const baseDomain = domain.split('.').slice(1).join('.');
+    const authSessions = await loadAuthSessions(
+      browser,
+      db,
+      config,
+      [domain, ...(domainsToTest || []).map(prefix => `${prefix}.${baseDomain}`)],
+      testId
+    );
+
+    // One scheduler for crawling and scanning so both respect the same per-host limits
+    const hostScheduler = new HostScheduler(config);
+    const pageVisitor = new PageVisitor(
+      config,
+      authSessions.get(domain),
+      resolveRequestProfile(config.requestProfiles, domain, mergedOptions.requestProfile),
+      hostScheduler
+    );
     await pageVisitor.initialize();
 
-    const domAnalyzer = new DOMAnalyzer();
-    const cluster = new PageClusterEngine(config.similarityThreshold);
-    const sampler = new SmartSampler();
-    const scanner = new MultiViewportScanner(browser, config);
-
-    const fingerprints: any[] = [];
+    const sitemapDiscovery = new SitemapDiscovery(config);
+    const sitemapAuditor = new SitemapAuditor(config);
+    const categoryRules = new CategoryRuleEngine(config.categoryRules);
+    const visualWeight = config.visualSimilarity.enabled ? config.visualSimilarity.weight : 0;
+    const domAnalyzer = new DOMAnalyzer(config.visualSimilarity, categoryRules.selectors);
+    const cluster = new PageClusterEngine(config.similarityThreshold, categoryRules, visualWeight, config.lsh);
+    const sampler = new SmartSampler(config.sampling.trafficShare, visualWeight);
+    const scanner = new MultiViewportScanner(
+      browser,
+      config,
+      authSessions,
+      mergedOptions.requestProfile,
+      hostScheduler
+    );
+
+    // Restore fingerprints and the crawl frontier persisted by an earlier run
+    const storedFingerprints = db.getFingerprints(testId);
+    const fingerprints: any[] = storedFingerprints.filter(f => f.stage === 'crawl').map(f => f.fingerprint);
+    const analyzedSamples = new Map<string, any>(
+      storedFingerprints.filter(f => f.stage === 'sample').map(f => [f.fingerprint.url, f.fingerprint])
+    );
+    const frontierStore: FrontierStore = {
+      load: () => db.getFrontier(testId).map(record => ({
+        entry: {
+          url: record.url,
+          domain,
+          normalized: record.normalized,
+          depth: record.depth,
+          source: (record.source || undefined) as UrlSource | undefined,
+          kind: (record.kind || undefined) as LinkKind | undefined,
+        },
+        status: record.status,
+      })),
+      record: (entry, status) => db.saveFrontierEntry(testId, {
+        url: entry.url,
+        normalized: entry.normalized,
+        depth: entry.depth ?? 0,
+        source: entry.source,
+        kind: entry.kind,
+      }, status),
+    };
 
     try {
-      // Step 1: Visit homepage
-      progress.step(1, 5, '📡 Fetching homepage and extracting links...');
-      progressManager.updateStep(testId, 1, 5, '📡 Fetching homepage and extracting links...');
-      const { page: homepage, links } = await pageVisitor.visitHomepage(domain);
-      progress.step(1, 5, `✓ Found ${links.length} unique links from homepage`);
-      progressManager.updateStep(testId, 1, 5, `✓ Found ${links.length} unique links from homepage`);
-
-      // Count page types
-      const detailCount = links.filter(l => l.url.includes('/products/')).length;
-      const listCount = links.filter(l => l.url.includes('/used-cars/') || l.url.includes('/cars/')).length;
-      progress.info(`  → Detail pages: ${detailCount}, List pages: ${listCount}, Other: ${links.length - detailCount - listCount}`);
-
-      const homepageFp = await domAnalyzer.analyze(homepage, `https://${domain}/`);
-      fingerprints.push(homepageFp);
-      await homepage.close();
-
-      // Step 2: Analyze DOM structure
-      // SAMPLE LINKS: Limit to max 10 pages to avoid overwhelming the server
-      // Must include at least 2 list pages and 2 detail pages
-      // Custom URLs are NOT subject to this limit
       const totalSteps = 5;
-      const MAX_SAMPLE_PAGES = 10;
-      const MIN_LIST_PAGES = 2;
-      const MIN_DETAIL_PAGES = 2;
-
-      progress.step(2, totalSteps, `🔍 Analyzing DOM structure for sampled pages...`);
-      progressManager.updateStep(testId, 2, totalSteps, `🔍 Analyzing DOM structure for sampled pages...`);
-
-      // Categorize links
-      const listPages = links.filter(l =>
-        l.url.includes('/used-cars/') || l.url.includes('/cars/')
-      );
-      const detailPages = links.filter(l =>
-        l.url.includes('/products/')
-      );
-      const otherPages = links.filter(l =>
-        !l.url.includes('/used-cars/') &&
-        !l.url.includes('/cars/') &&
-        !l.url.includes('/products/')
-      );
-
-      progress.info(`  Found ${listPages.length} list pages, ${detailPages.length} detail pages, ${otherPages.length} other pages`);
-
-      // Sample pages strategically (only for auto-crawled pages)
-      const sampledLinks = [];
-
-      // Add minimum required pages
-      const listPagesToAdd = Math.min(MIN_LIST_PAGES, listPages.length);
-      for (let i = 0; i < listPagesToAdd; i++) {
-        sampledLinks.push(listPages[i]);
-      }
-
-      const detailPagesToAdd = Math.min(MIN_DETAIL_PAGES, detailPages.length);
-      for (let i = 0; i < detailPagesToAdd; i++) {
-        sampledLinks.push(detailPages[i]);
-      }
-
-      // Fill remaining slots with other pages
-      let remainingSlots = MAX_SAMPLE_PAGES - sampledLinks.length;
-      for (let i = 0; i < Math.min(remainingSlots, otherPages.length); i++) {
-        sampledLinks.push(otherPages[i]);
-      }
-
-      progress.info(`  → Sampling ${sampledLinks.length} auto-crawled pages for analysis (${listPagesToAdd} list, ${detailPagesToAdd} detail, ${sampledLinks.length - listPagesToAdd - detailPagesToAdd} other)`);
-
-      // Add custom URLs if provided (not subject to the 10-page limit)
-      const customUrls = mergedOptions.customUrls || [];
-      if (customUrls.length > 0) {
-        progress.info(`  → Adding ${customUrls.length} custom URLs (not subject to sampling limit)`);
-        progressManager.addLog(testId, `Adding ${customUrls.length} custom URLs`);
-        customUrls.forEach(url => {
-          sampledLinks.push({ url, source: 'custom' });
+      let scanTargets: SampledPageState[];
+      let categoryCount: number;
+
+      if (resumeState?.phase === 'scanning' && resumeState.sampled) {
+        // Discovery and sampling already finished before the interruption
+        scanTargets = resumeState.sampled;
+        categoryCount = resumeState.categories;
+        progress.info(`  → Resuming with ${scanTargets.length} sampled pages`);
+        progressManager.addLog(testId, `Resuming with ${scanTargets.length} sampled pages`);
+      } else {
+        // Step 1: Crawl from the homepage
+        const { maxDepth, maxUrls } = config.crawl;
+        progress.step(1, 5, `📡 Crawling site (depth ${maxDepth}, max ${maxUrls} URLs)...`);
+        progressManager.updateStep(testId, 1, 5, `📡 Crawling site (depth ${maxDepth}, max ${maxUrls} URLs)...`);
+
+        // Pages visited during the crawl are fingerprinted on the spot
+        const discovered = await pageVisitor.crawl(domain, async (page, entry) => {
+          const fp = { ...await domAnalyzer.analyze(page, entry.url), crawlDepth: entry.depth };
+          fingerprints.push(fp);
+          db.saveFingerprint(testId, fp, 'crawl');
+        }, frontierStore, edges => db.saveLinkEdges(testId, edges), abort.signal);
+        db.saveScanState({ test_id: testId, domain, options: mergedOptions, phase: 'analyzing', categories: 0 });
+
+        // Merge sitemap URLs after crawled ones so crawl metadata wins on duplicates
+        const { entries: sitemapEntries, urls: sitemapUrls, truncated: sitemapTruncated } = await sitemapDiscovery.discover(domain);
+        const normalizer = new URLNormalizer(
+          domain,
+          config.excludedPatterns,
+          resolveQueryParamRules(config.queryParams, domain)
+        );
+        const merged = normalizer.deduplicate([...discovered, ...sitemapUrls]);
+
+        const urlSources = new Map<string, string>();
+        merged.forEach(l => urlSources.set(l.url, l.source || 'crawl'));
+
+        const crawledUrls = new Set(fingerprints.map(fp => fp.url));
+        const links = merged.filter(l => !crawledUrls.has(l.url));
+
+        progress.step(1, 5, `✓ Discovered ${merged.length} unique URLs (${fingerprints.length} crawled)`);
+        progressManager.updateStep(testId, 1, 5, `✓ Discovered ${merged.length} unique URLs (${fingerprints.length} crawled)`);
+
+        const sourceCounts = new Map<string, number>();
+        urlSources.forEach(source => sourceCounts.set(source, (sourceCounts.get(source) || 0) + 1));
+        const sourceSummary = Array.from(sourceCounts.entries()).map(([source, n]) => `${source}: ${n}`).join(', ');
+        progress.info(`  → By source: ${sourceSummary}`);
+        progressManager.addLog(testId, `URL sources: ${sourceSummary}`);
+
+        const kindCounts = new Map<string, number>();
+        discovered.forEach(l => {
+          const kind = l.kind || l.source || 'other';
+          kindCounts.set(kind, (kindCounts.get(kind) || 0) + 1);
         });
-      }
+        const kindSummary = Array.from(kindCounts.entries()).map(([kind, n]) => `${kind}: ${n}`).join(', ');
+        progress.info(`  → By element: ${kindSummary}`);
+        progressManager.addLog(testId, `URL elements: ${kindSummary}`);
+
+        const depthCounts = new Map<number, number>();
+        discovered.forEach(l => depthCounts.set(l.depth ?? 0, (depthCounts.get(l.depth ?? 0) || 0) + 1));
+        progress.info(`  → By depth: ${Array.from(depthCounts.entries()).map(([d, n]) => `${d}: ${n}`).join(', ')}`);
+
+        // Sitemap health: check listed URLs and find crawled pages it misses
+        if (sitemapEntries.length > 0) {
+          progress.info(`  → Auditing sitemap (${Math.min(sitemapEntries.length, config.sitemap.auditMaxUrls)}/${sitemapEntries.length} entries)...`);
+          progressManager.addLog(testId, `Auditing sitemap: ${sitemapEntries.length} entries`);
+          const audit = await sitemapAuditor.audit(sitemapEntries, discovered, domain, sitemapTruncated);
+          // A resumed analysis audits again; replace issues from the interrupted run
+          db.deleteSitemapIssuesByTest(testId);
+          for (const issue of audit.issues) {
+            db.createSitemapIssue({ test_id: testId, ...issue });
+          }
+          db.updateTest(testId, {
+            sitemap_entries: audit.totalEntries,
+            sitemap_checked: audit.checked,
+            sitemap_missing_checked: audit.missingChecked ? 1 : 0,
+          });
+          const auditNote = audit.missingChecked ? '' : ' (sitemap truncated, missing pages not checked)';
+          progress.info(`  ✓ Sitemap audit: ${audit.issues.length} issues${auditNote}`);
+          progressManager.addLog(testId, `✓ Sitemap audit: ${audit.issues.length} issues${auditNote}`);
+        }
 
-      const visitPromises = sampledLinks.map(async (link, idx) => {
-        try {
-          progressManager.addLog(testId, `Analyzing: ${link.url} (${idx + 1}/${sampledLinks.length})`);
-          const page = await pageVisitor.visitPage(link.url);
-          const fp = await domAnalyzer.analyze(page, link.url);
-          await page.close();
+        // Count page types
+        const detailCount = links.filter(l => categoryRules.pageType(l.url) === 'detail').length;
+        const listCount = links.filter(l => categoryRules.pageType(l.url) === 'list').length;
+        progress.info(`  → Detail pages: ${detailCount}, List pages: ${listCount}, Other: ${links.length - detailCount - listCount}`);
+
+        // Step 2: Analyze DOM structure
+        // Pre-group URLs by template and fingerprint only a few members of each
+        // Custom URLs are NOT subject to this limit
+        progress.step(2, totalSteps, `🔍 Analyzing DOM structure for sampled pages...`);
+        progressManager.updateStep(testId, 2, totalSteps, `🔍 Analyzing DOM structure for sampled pages...`);
+
+        // Traffic weights from an imported analytics set; its URLs are stored normalized
+        const trafficWeights = new Map<string, number>();
+        const candidateUrls = links.map(l => l.url);
+        if (trafficSet) {
+          const setWeights = new Map(trafficSet.urls.map(u => [u.url, u.weight || 0]));
+          const known = new Set(merged.map(l => l.normalized));
+          trafficSet.urls
+            .filter(u => !known.has(u.url) && !crawledUrls.has(u.url))
+            .forEach(u => {
+              candidateUrls.push(u.url);
+              urlSources.set(u.url, 'custom');
+            });
+          for (const url of [...candidateUrls, ...crawledUrls]) {
+            const weight = setWeights.get(normalizer.normalize(url)?.normalized || url) || 0;
+            if (weight > 0) trafficWeights.set(url, weight);
+          }
+          progress.info(`  → Traffic weights for ${trafficWeights.size} URLs from set "${trafficSet.name}"`);
+          progressManager.addLog(testId, `Using traffic weights from URL set ${trafficSet.name}`);
+        }
 
-          return fp;
-        } catch (error) {
-          logger.warn(`Failed to analyze ${link.url}`);
-          return null;
+        const { samplesPerTemplate, maxSamples, minVariants } = config.urlTemplates;
+        const plan = cluster.planFingerprinting(
+          candidateUrls,
+          fingerprints,
+          samplesPerTemplate,
+          maxSamples,
+          minVariants,
+          trafficWeights
+        );
+
+        progress.info(`  Found ${plan.templates.length} URL templates:`);
+        plan.templates.slice(0, 10).forEach(t => {
+          progress.info(`    • ${t.template}: ${t.urls.length} URLs`);
+        });
+        progressManager.addLog(testId, `Inferred ${plan.templates.length} URL templates from ${merged.length} URLs`);
+
+        const linksByUrl = new Map(links.map(l => [l.url, l]));
+        const sampledLinks: Array<{ url: string; depth?: number; source?: string }> =
+          plan.toVisit.map(url => linksByUrl.get(url) || { url });
+
+        progress.info(`  → Sampling ${sampledLinks.length} auto-crawled pages for analysis (up to ${samplesPerTemplate} per template)`);
+
+        // Add custom URLs if provided (not subject to the template sampling limit)
+        const customUrls = mergedOptions.customUrls || [];
+        if (customUrls.length > 0) {
+          progress.info(`  → Adding ${customUrls.length} custom URLs (not subject to sampling limit)`);
+          progressManager.addLog(testId, `Adding ${customUrls.length} custom URLs`);
+          customUrls.forEach(url => {
+            sampledLinks.push({ url, source: 'custom' });
+            if (!urlSources.has(url)) urlSources.set(url, 'custom');
+          });
         }
-      });
 
-      const results = await Promise.all(visitPromises);
-      for (const fp of results) {
-        if (fp) fingerprints.push(fp);
-      }
+        const visitPromises = sampledLinks.map(async (link, idx) => {
+          // Reuse fingerprints saved before an interruption
+          const saved = analyzedSamples.get(link.url);
+          if (saved) return saved;
+
+          try {
+            progressManager.addLog(testId, `Analyzing: ${link.url} (${idx + 1}/${sampledLinks.length}) [${urlSources.get(link.url) || 'crawl'}]`);
+            const page = await pageVisitor.visitPage(link.url);
+            const fp = {
+              ...await domAnalyzer.analyze(page, link.url),
+              crawlDepth: link.depth,
+              urlTemplate: plan.templateOf.get(link.url),
+            };
+            await page.close();
+
+            abort.signal.throwIfAborted();
+            db.saveFingerprint(testId, fp, 'sample');
+            return fp;
+          } catch (error) {
+            abort.signal.throwIfAborted();
+            logger.warn(`Failed to analyze ${link.url}`);
+            return null;
+          }
+        });
 
-      progress.info(`  ✓ Analyzed ${fingerprints.length} pages successfully`);
-      progressManager.addLog(testId, `✓ Analyzed ${fingerprints.length} pages successfully`);
+        const results = await Promise.all(visitPromises);
+        abort.signal.throwIfAborted();
+        for (const fp of results) {
+          if (fp) fingerprints.push(fp);
+        }
 
-      // Step 3: Cluster pages
-      progress.step(3, 5, `📊 Clustering ${fingerprints.length} pages by similarity...`);
-      progressManager.updateStep(testId, 3, 5, `📊 Clustering ${fingerprints.length} pages by similarity...`);
-      const clusters = cluster.cluster(fingerprints);
+        db.saveUrlTemplates(testId, cluster.summarizeTemplates(plan.templates, fingerprints));
+
+        progress.info(`  ✓ Analyzed ${fingerprints.length} pages successfully`);
+        progressManager.addLog(testId, `✓ Analyzed ${fingerprints.length} pages successfully`);
+
+        // Step 3: Cluster pages
+        progress.step(3, 5, `📊 Clustering ${fingerprints.length} pages by similarity...`);
+        progressManager.updateStep(testId, 3, 5, `📊 Clustering ${fingerprints.length} pages by similarity...`);
+        // Clusters from earlier scans of the domain keep their IDs when matched
+        const { clusters, tree } = cluster.clusterWithTree(fingerprints, db.getClusters(domain));
+        db.saveClusters(domain, testId, clusters.map(c => cluster.toSignature(c)));
+        db.saveClusterTree(testId, tree);
+        if (tree.suggested) {
+          progress.info(`  → Suggested similarity threshold: ${tree.threshold.toFixed(3)}`);
+          progressManager.addLog(testId, `Suggested similarity threshold: ${tree.threshold.toFixed(3)}`);
+        }
 
-      progress.info(`  → Created ${clusters.length} page categories:`);
-      clusters.forEach(c => {
-        progress.info(`    • "${c.category}": ${c.members.length} pages`);
-      });
+        progress.info(`  → Created ${clusters.length} page categories:`);
+        clusters.forEach(c => {
+          progress.info(`    • "${c.category}": ${c.members.length} pages${c.templates ? ` (${c.templates.join(', ')})` : ''}`);
+        });
 
-      // Step 4: Sample pages
-      progress.step(4, 5, `🎲 Sampling pages (max ${config.maxPagesPerCategory} per category)...`);
-      progressManager.updateStep(testId, 4, 5, `🎲 Sampling pages (max ${config.maxPagesPerCategory} per category)...`);
-      const sampledClusters = sampler.sampleFromClusters(
-        clusters,
-        config.maxPagesPerCategory,
-        config.pageTypePatterns
-      );
-      const sampledPages = sampler.getSampledPages(sampledClusters);
-
-      // Count page types in sample
-      const sampledDetails = sampledPages.filter(p => identifyPageType(p.url, config.pageTypePatterns) === 'detail').length;
-      const sampledLists = sampledPages.filter(p => identifyPageType(p.url, config.pageTypePatterns) === 'list').length;
-
-      progress.info(`  → Selected ${sampledPages.length} pages for testing:`);
-      progress.info(`    • Detail pages: ${sampledDetails} ✓`);
-      progress.info(`    • List pages: ${sampledLists} ✓`);
-      progress.info(`    • Other: ${sampledPages.length - sampledDetails - sampledLists}`);
+        // Step 4: Sample pages
+        progress.step(4, 5, `🎲 Sampling pages (max ${config.maxPagesPerCategory} per category)...`);
+        progressManager.updateStep(testId, 4, 5, `🎲 Sampling pages (max ${config.maxPagesPerCategory} per category)...`);
+        const sampledClusters = sampler.sampleFromClusters(
+          clusters,
+          config.maxPagesPerCategory,
+          categoryRules,
+          trafficWeights
+        );
+        const sampledPages = sampler.getSampledPages(sampledClusters);
+
+        // Count page types in sample
+        const sampledDetails = sampledPages.filter(p => categoryRules.pageType(p.url, p) === 'detail').length;
+        const sampledLists = sampledPages.filter(p => categoryRules.pageType(p.url, p) === 'list').length;
+
+        progress.info(`  → Selected ${sampledPages.length} pages for testing:`);
+        progress.info(`    • Detail pages: ${sampledDetails} ✓`);
+        progress.info(`    • List pages: ${sampledLists} ✓`);
+        progress.info(`    • Other: ${sampledPages.length - sampledDetails - sampledLists}`);
+
+        scanTargets = sampledPages.map(fp => {
+          const pageCluster = clusters.find(c => c.members.some(m => m.url === fp.url));
+          return {
+            url: fp.url,
+            category: pageCluster?.category || 'other',
+            pageType: categoryRules.pageType(fp.url, fp),
+            crawlDepth: fp.crawlDepth,
+            source: urlSources.get(fp.url),
+            alternates: fp.alternates,
+            clusterId: pageCluster?.id,
+          };
+        });
+        categoryCount = clusters.length;
+        db.saveScanState({
+          test_id: testId,
+          domain,
+          options: mergedOptions,
+          phase: 'scanning',
+          sampled: scanTargets,
+          categories: categoryCount,
+        });
+      }
 
       // Step 5: Scan pages with 4 viewports
       // Calculate total pages considering multi-domain
       const totalDomainsToTest = domainsToTest && domainsToTest.length > 0 ? domainsToTest.length : 1;
-      const totalPageScans = sampledPages.length * totalDomainsToTest;
-      progress.step(5, totalSteps, `🖼️  Testing ${sampledPages.length} pages × ${totalDomainsToTest} domain(s) × 4 viewports...`);
-      progressManager.updateStep(testId, 5, totalSteps, `🖼️  Testing ${sampledPages.length} pages × ${totalDomainsToTest} domain(s) × 4 viewports...`);
+      const totalPageScans = scanTargets.length * totalDomainsToTest;
+      progress.step(5, totalSteps, `🖼️  Testing ${scanTargets.length} pages × ${totalDomainsToTest} domain(s) × 4 viewports...`);
+      progressManager.updateStep(testId, 5, totalSteps, `🖼️  Testing ${scanTargets.length} pages × ${totalDomainsToTest} domain(s) × 4 viewports...`);
       progress.info(`  Total screenshots: ${totalPageScans * 4}`);
 
       let scanIndex = 0;
-      const totalPages = sampledPages;
-      let totalIssues = 0;
+      const totalPages = scanTargets;
+
+      // Pages finished before an interruption are kept and not scanned again
+      const completedPages = db.getPagesByTest(testId);
+      const completedUrls = new Set(completedPages.map(p => p.url));
+      let totalIssues = completedPages.reduce((sum, p) => sum + p.issues_count, 0);
       const viewportTypes = ['PC-Normal', 'Mobile-Normal', 'PC-Spider', 'Mobile-Spider'];
 
       // Determine which domains to test
@@ -266,18 +490,33 @@ export async function runScan(domain: string, db: DatabaseManager, options?: Sca
       // Track scanned URLs to prevent duplicates
       const scannedUrls = new Set<string>();
 
-      for (const pageFp of sampledPages) {
+      for (const target of scanTargets) {
+        abort.signal.throwIfAborted();
         try {
-          const pageType = identifyPageType(pageFp.url, config.pageTypePatterns);
-          const pageCluster = clusters.find(c => c.members.includes(pageFp));
-          const category = pageCluster?.category || 'other';
+          // Older resume states have no page type; URL rules still apply
+          const pageType = target.pageType || categoryRules.pageType(target.url);
+          const category = target.category;
 
           // Test each domain
           for (let domainIndex = 0; domainIndex < domainsForScan.length; domainIndex++) {
             const currentDomain = domainsForScan[domainIndex];
-            const urlToTest = domainIndex === 0 ? pageFp.url : replaceDomainInUrl(pageFp.url, domain, currentDomain);
+            const localeTarget = domainIndex === 0
+              ? { url: target.url, method: 'source' }
+              : resolveLocaleUrl(target.url, currentDomain, target.alternates);
             const domainLabel = domainIndex === 0 ? domain : currentDomain;
 
+            if (!localeTarget) {
+              logger.warn(`No ${currentDomain} equivalent for ${target.url} in its hreflang alternates`);
+              progressManager.addLog(testId, `  No ${currentDomain} equivalent (hreflang) for ${target.url}`);
+              db.saveLocaleGap(testId, target.url, currentDomain);
+              scanIndex++;
+              continue;
+            }
+            const urlToTest = localeTarget.url;
+            if (localeTarget.method === 'hreflang') {
+              progressManager.addLog(testId, `  ${currentDomain} equivalent from hreflang: ${urlToTest}`);
+            }
+
             // Skip if this URL has already been scanned
             if (scannedUrls.has(urlToTest)) {
               logger.warn(`Skipping duplicate URL: ${urlToTest}`);
@@ -285,6 +524,12 @@ export async function runScan(domain: string, db: DatabaseManager, options?: Sca
             }
             scannedUrls.add(urlToTest);
 
+            if (completedUrls.has(urlToTest)) {
+              progressManager.addLog(testId, `Already tested before interruption: ${urlToTest}`);
+              scanIndex++;
+              continue;
+            }
+
             const pagePercent = Math.round(((scanIndex + 1) / totalPageScans) * 100);
             console.log(`\n[${pagePercent}%] Testing page ${scanIndex + 1}/${totalPageScans}: ${urlToTest} (${domainLabel})`);
             console.log(`  Type: ${pageType.toUpperCase()}, Category: ${category}`);
@@ -292,9 +537,11 @@ export async function runScan(domain: string, db: DatabaseManager, options?: Sca
             // Update progress manager with current page
             progressManager.updatePageScan(testId, urlToTest, pagePercent, totalPageScans, scanIndex);
             progressManager.addLog(testId, `Testing: ${urlToTest} (${scanIndex + 1}/${totalPageScans}) [${domainLabel}]`);
-            progressManager.addLog(testId, `  Type: ${pageType.toUpperCase()}, Category: ${category}`);
+            progressManager.addLog(testId, `  Type: ${pageType.toUpperCase()}, Category: ${category}, Source: ${target.source || 'crawl'}`);
 
             const result = await scanner.scanPage(urlToTest, domainLabel, category, pageType, testId);
+            // Errors from the browser closed by the timeout are not page results
+            abort.signal.throwIfAborted();
 
             // Update screenshot status
             const screenshotStatus = {
@@ -329,8 +576,12 @@ export async function runScan(domain: string, db: DatabaseManager, options?: Sca
               http_status: result.httpStatus,
               request_ids: result.requestIds && Object.keys(result.requestIds).length > 0 ? result.requestIds : undefined,
               seo: result.seo,
-              original_url: pageFp.url,  // Store the original URL used for filtering
+              original_url: target.url,  // Store the original URL used for filtering
               original_domain: domain,  // Store the original domain used for filtering
+              crawl_depth: target.crawlDepth,
+              redirect_chains: result.redirectChains,
+              attempts: result.attempts,
+              cluster_id: target.clusterId,
             });
 
             // Analyze screenshot quality asynchronously (don't block the scan)
@@ -381,14 +632,22 @@ export async function runScan(domain: string, db: DatabaseManager, options?: Sca
               });
             }
 
+            const brokenTargets = result.seo?.links.brokenTargets || [];
+            if (brokenTargets.length > 0) {
+              db.saveBrokenLinks(testId, result.url, brokenTargets);
+              progressManager.addLog(testId, `  Broken links: ${brokenTargets.length}`);
+            }
+
             totalIssues += result.issues.length;
             scanIndex++;
           }  // End of domain loop
 
         } catch (error) {
-          progress.error(`Failed to scan ${pageFp.url}`, error);
+          abort.signal.throwIfAborted();
+          progress.error(`Failed to scan ${target.url}`, error);
         }
       }  // End of page loop
+      abort.signal.throwIfAborted();
 
       // Complete
       isScanComplete = true;
@@ -399,13 +658,15 @@ export async function runScan(domain: string, db: DatabaseManager, options?: Sca
         status: 'completed',
         total_pages: totalPageScans,
         total_issues: totalIssues,
-        categories: clusters.length,
+        categories: categoryCount,
         duration_ms: duration,
       });
+      db.saveScanState({ test_id: testId, domain, options: mergedOptions, phase: 'done', categories: categoryCount });
 
       // Notify progress manager
       progressManager.completeScan(testId, true);
 
+      await scanner.close();
       await pageVisitor.close();
       await browser.close();
 
@@ -415,7 +676,7 @@ export async function runScan(domain: string, db: DatabaseManager, options?: Sca
       progress.info(`  • Pages tested: ${totalPageScans}`);
       progress.info(`  • Screenshots captured: ${totalPageScans * 4} (4 viewports per page)`);
       progress.info(`  • Issues found: ${totalIssues}`);
-      progress.info(`  • Categories: ${clusters.length}`);
+      progress.info(`  • Categories: ${categoryCount}`);
       progress.info(`  • Duration: ${Math.round(duration / 1000)}s`);
       progress.info('='.repeat(60));
 
@@ -423,6 +684,11 @@ export async function runScan(domain: string, db: DatabaseManager, options?: Sca
       isScanComplete = true;
       if (timeoutTimer) clearTimeout(timeoutTimer);
 
+      // The timeout handler already recorded the failure and closed the browser
+      if (abort.signal.aborted) {
+        throw error;
+      }
+
       progress.error('Scan failed!', error);
 
       db.updateTest(testId, {
@@ -433,6 +699,7 @@ export async function runScan(domain: string, db: DatabaseManager, options?: Sca
       // Notify progress manager
       progressManager.completeScan(testId, false);
 
+      await scanner.close();
       await pageVisitor.close();
       await browser.close();
 
@@ -443,3 +710,19 @@ export async function runScan(domain: string, db: DatabaseManager, options?: Sca
     throw error;
   }
 }
+
+/**
+ * Continue an interrupted test (timeout, crash or server restart) from its
+ * persisted frontier, fingerprints and last completed page
+ */
+export async function resumeScan(testId: number, db: DatabaseManager): Promise<void> {
+  const state = db.getScanState(testId);
+  if (!state) {
+    throw new Error(`No resumable state for test ${testId}`);
+  }
+  if (state.phase === 'done') {
+    throw new Error(`Test ${testId} already completed`);
+  }
+
+  await runScan(state.domain, db, { ...state.options, resumeTestId: testId });
+}
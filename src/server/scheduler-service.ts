@@ -92,7 +92,12 @@ class SchedulerService {
       });
 
       // Run the scan (will use global custom URLs from database)
-      await runScan(domain, this.db, { source: 'scheduled' });
+      await runScan(domain, this.db, {
+        source: 'scheduled',
+        requestProfile: task.request_profile || undefined,
+        urlSet: task.url_set || undefined,
+        trafficSet: task.traffic_set || undefined,
+      });
 
       console.log(`[Scheduler] Task ${taskId} completed successfully`);
     } catch (error) {
@@ -2,14 +2,67 @@ import express from 'express';
 import cors from 'cors';
 import path from 'path';
 import { fileURLToPath } from 'url';
+import { promises as fs } from 'fs';
 import { DatabaseManager } from './database.js';
-import { runScan } from './scanner-service.js';
+import { URLNormalizer, resolveQueryParamRules } from '../crawler/url-normalizer.js';
+import { LinkGraph } from '../crawler/link-graph.js';
+import { CategoryRuleEngine } from '../classifier/category-rules.js';
+import { detectUrlListFormat, importUrlList, mergeUrlLists } from '../crawler/url-list-import.js';
+import { hasSecretKey } from '../utils/secret-box.js';
+import { Config, UrlListFormat } from '../types.js';
+import { runScan, resumeScan } from './scanner-service.js';
 import { progressManager } from './progress-manager.js';
 import { createScheduler } from './scheduler-service.js';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
 
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Request profiles are optional. Returns why a given profile does not have
+ * the RequestProfile shape, or undefined when it is valid.
+ */
+function requestProfileError(profile: unknown): string | undefined {
+  if (profile === undefined) return undefined;
+  if (!isPlainObject(profile)) return 'request_profile must be an object';
+
+  const fields = ['headers', 'cookies', 'locale', 'timezone', 'geolocation'];
+  const unknown = Object.keys(profile).filter(key => !fields.includes(key));
+  if (unknown.length > 0) {
+    return `request_profile has unknown fields: ${unknown.join(', ')} (allowed: ${fields.join(', ')})`;
+  }
+
+  const { headers, cookies, locale, timezone, geolocation } = profile;
+  if (headers !== undefined && (!isPlainObject(headers) || Object.values(headers).some(v => typeof v !== 'string'))) {
+    return 'request_profile.headers must be an object of string values';
+  }
+  if (cookies !== undefined && (!Array.isArray(cookies) || !cookies.every(cookie =>
+    isPlainObject(cookie)
+    && typeof cookie.name === 'string' && cookie.name !== ''
+    && typeof cookie.value === 'string'
+    && (cookie.path === undefined || typeof cookie.path === 'string')
+  ))) {
+    return 'request_profile.cookies must be an array of { name, value, path? } strings';
+  }
+  if (locale !== undefined && typeof locale !== 'string') {
+    return 'request_profile.locale must be a string';
+  }
+  if (timezone !== undefined && typeof timezone !== 'string') {
+    return 'request_profile.timezone must be a string';
+  }
+  if (geolocation !== undefined && (!isPlainObject(geolocation)
+    || typeof geolocation.latitude !== 'number'
+    || typeof geolocation.longitude !== 'number'
+    || (geolocation.accuracy !== undefined && typeof geolocation.accuracy !== 'number'))) {
+    return 'request_profile.geolocation must be { latitude, longitude, accuracy? } numbers';
+  }
+  return undefined;
+}
+
+const URL_SET_IMPORT_PATH = /^\/api\/url-sets\/[^/]+\/import$/;
+
 export function createWebServer(db: DatabaseManager, port: number = 3000): express.Application {
   const app = express();
 
@@ -19,7 +72,15 @@ export function createWebServer(db: DatabaseManager, port: number = 3000): expre
 
   // Middleware
   app.use(cors());
-  app.use(express.json());
+  // URL set imports read their body as raw text (HAR files are megabytes of JSON)
+  const jsonParser = express.json();
+  app.use((req, res, next) => {
+    if (URL_SET_IMPORT_PATH.test(req.path)) {
+      next();
+      return;
+    }
+    jsonParser(req, res, next);
+  });
 
   // Request logging middleware
   app.use((req, res, next) => {
@@ -63,7 +124,36 @@ export function createWebServer(db: DatabaseManager, port: number = 3000): expre
         return;
       }
 
-      res.json(test);
+      // Sitemap health is reported per test, next to page issues
+      const sitemapIssues = db.getSitemapIssuesByTest(testId);
+      const byType: Record<string, number> = {};
+      sitemapIssues.forEach(issue => {
+        byType[issue.type] = (byType[issue.type] || 0) + 1;
+      });
+
+      // Sampled pages whose hreflang set has no page for a tested locale
+      const localeGaps = db.getLocaleGapsByTest(testId);
+      const missingByLocale: Record<string, number> = {};
+      localeGaps.forEach(gap => {
+        missingByLocale[gap.locale] = (missingByLocale[gap.locale] || 0) + 1;
+      });
+
+      res.json({
+        ...test,
+        sitemap_health: {
+          entries: test.sitemap_entries || 0,
+          checked: test.sitemap_checked || 0,
+          // false when the sitemap was truncated, so missing pages were not looked for
+          missing_checked: test.sitemap_missing_checked !== 0,
+          issues_by_type: byType,
+          issues: sitemapIssues,
+        },
+        locale_coverage: {
+          missing_by_locale: missingByLocale,
+          missing: localeGaps,
+        },
+        url_templates: db.getUrlTemplatesByTest(testId),
+      });
     } catch (error) {
       res.status(500).json({ error: 'Failed to fetch test' });
     }
@@ -82,6 +172,121 @@ export function createWebServer(db: DatabaseManager, port: number = 3000): expre
     }
   });
 
+  /**
+   * GET /api/tests/:id/cluster-tree - Dendrogram of the test's clustering and its cut threshold
+   */
+  app.get('/api/tests/:id/cluster-tree', (req, res) => {
+    try {
+      const testId = parseInt(req.params.id);
+      const tree = db.getClusterTree(testId);
+
+      if (!tree) {
+        res.status(404).json({ error: 'Cluster tree not found' });
+        return;
+      }
+
+      res.json({ testId, ...tree });
+    } catch (error) {
+      res.status(500).json({ error: 'Failed to fetch cluster tree' });
+    }
+  });
+
+  /**
+   * GET /api/tests/:id/broken-links - Broken link targets with status codes and linking pages
+   */
+  app.get('/api/tests/:id/broken-links', (req, res) => {
+    try {
+      const testId = parseInt(req.params.id);
+      const test = db.getTest(testId);
+
+      if (!test) {
+        res.status(404).json({ error: 'Test not found' });
+        return;
+      }
+
+      const links = db.getBrokenLinksByTest(testId);
+      const byStatus: Record<string, number> = {};
+      links.forEach(link => {
+        const key = link.status ? String(link.status) : 'no_response';
+        byStatus[key] = (byStatus[key] || 0) + 1;
+      });
+
+      res.json({ testId, total: links.length, by_status: byStatus, links });
+    } catch (error) {
+      res.status(500).json({ error: 'Failed to fetch broken links' });
+    }
+  });
+
+  /**
+   * GET /api/tests/:id/urls - URLs discovered while crawling
+   * Query: kind (anchor, canonical, iframe, form, data-attr, ...), source, status
+   */
+  app.get('/api/tests/:id/urls', (req, res) => {
+    try {
+      const testId = parseInt(req.params.id);
+      const { kind, source, status } = req.query as Record<string, string | undefined>;
+
+      const urls = db.getFrontier(testId).filter(entry =>
+        (!kind || entry.kind === kind) &&
+        (!source || entry.source === source) &&
+        (!status || entry.status === status)
+      );
+
+      const byKind: Record<string, number> = {};
+      urls.forEach(entry => {
+        const key = entry.kind || 'none';
+        byKind[key] = (byKind[key] || 0) + 1;
+      });
+
+      res.json({ total: urls.length, by_kind: byKind, urls });
+    } catch (error) {
+      res.status(500).json({ error: 'Failed to fetch URLs' });
+    }
+  });
+
+  /**
+   * GET /api/tests/:id/link-graph - Click depth, weakly linked pages and anchor texts
+   * Query: deepThreshold (default 3), maxInbound (default 1), pageType, limit (default 50)
+   */
+  app.get('/api/tests/:id/link-graph', async (req, res) => {
+    try {
+      const testId = parseInt(req.params.id);
+      const test = db.getTest(testId);
+
+      if (!test) {
+        res.status(404).json({ error: 'Test not found' });
+        return;
+      }
+
+      const configPath = path.join(process.cwd(), 'config', 'default.json');
+      const config: Config = JSON.parse(await fs.readFile(configPath, 'utf-8'));
+      const pageType = req.query.pageType as string | undefined;
+      const categoryRules = new CategoryRuleEngine(config.categoryRules);
+      const root = new URLNormalizer(
+        test.domain,
+        config.excludedPatterns,
+        resolveQueryParamRules(config.queryParams, test.domain)
+      ).normalize(`https://${test.domain}/`)?.normalized || `https://${test.domain}/`;
+
+      const numberParam = (name: string, fallback: number): number => {
+        const value = parseInt(req.query[name] as string);
+        return isNaN(value) ? fallback : value;
+      };
+
+      const graph = new LinkGraph(db.getLinkEdges(testId));
+      const analysis = graph.analyze(root, {
+        deepThreshold: numberParam('deepThreshold', 3),
+        maxInbound: numberParam('maxInbound', 1),
+        limit: numberParam('limit', 50),
+        filter: pageType ? url => categoryRules.pageType(url) === pageType : undefined,
+      });
+
+      res.json({ testId, root, ...analysis });
+    } catch (error) {
+      res.status(500).json({ error: 'Failed to analyze link graph' });
+    }
+  });
+
   /**
    * GET /api/pages/:id/issues - Get issues for a page
    */
@@ -100,18 +305,37 @@ export function createWebServer(db: DatabaseManager, port: number = 3000): expre
    */
   app.post('/api/scan/start', async (req, res) => {
     try {
-      const { domain, custom_urls, domains } = req.body;
+      const { domain, custom_urls, domains, request_profile, url_set, traffic_set } = req.body;
 
       if (!domain) {
         res.status(400).json({ error: 'Domain is required' });
         return;
       }
 
+      const profileError = requestProfileError(request_profile);
+      if (profileError) {
+        res.status(400).json({ error: profileError });
+        return;
+      }
+
+      if (url_set && !db.getUrlSet(url_set)) {
+        res.status(400).json({ error: `URL set ${url_set} not found` });
+        return;
+      }
+
+      if (traffic_set && !db.getUrlSet(traffic_set)) {
+        res.status(400).json({ error: `URL set ${traffic_set} not found` });
+        return;
+      }
+
       // Start scan asynchronously with optional multi-domain support
       runScan(domain, db, {
         customUrls: custom_urls,
         domains: domains,  // Pass domain codes array (e.g., ['en', 'ru', 'ar', 'fr'])
-        source: 'manual'
+        source: 'manual',
+        requestProfile: request_profile,
+        urlSet: url_set,
+        trafficSet: traffic_set,
       }).catch(error => {
         console.error('Scan failed:', error);
       });
@@ -127,6 +351,41 @@ export function createWebServer(db: DatabaseManager, port: number = 3000): expre
     }
   });
 
+  /**
+   * POST /api/tests/:id/resume - Resume an interrupted test
+   */
+  app.post('/api/tests/:id/resume', async (req, res) => {
+    try {
+      const testId = parseInt(req.params.id);
+      const test = db.getTest(testId);
+
+      if (!test) {
+        res.status(404).json({ error: 'Test not found' });
+        return;
+      }
+
+      // A test left 'running' by a server restart has no live progress entry
+      if (progressManager.getProgress(testId)?.status === 'running') {
+        res.status(409).json({ error: 'Test is still running' });
+        return;
+      }
+
+      const state = db.getScanState(testId);
+      if (!state || state.phase === 'done' || test.status === 'completed') {
+        res.status(400).json({ error: 'Test cannot be resumed' });
+        return;
+      }
+
+      resumeScan(testId, db).catch(error => {
+        console.error('Resumed scan failed:', error);
+      });
+
+      res.json({ message: 'Scan resumed', testId, phase: state.phase });
+    } catch (error) {
+      res.status(500).json({ error: 'Failed to resume test' });
+    }
+  });
+
   /**
    * GET /api/scan/status/:id - Get scan status
    */
@@ -223,14 +482,37 @@ export function createWebServer(db: DatabaseManager, port: number = 3000): expre
    */
   app.post('/api/scheduled-tasks', (req, res) => {
     try {
-      const { name, domain, cron_expression } = req.body;
+      const { name, domain, cron_expression, request_profile, url_set, traffic_set } = req.body;
 
       if (!name || !domain || !cron_expression) {
         res.status(400).json({ error: 'Name, domain, and cron_expression are required' });
         return;
       }
 
-      const taskId = db.createScheduledTask(name, domain, cron_expression);
+      const profileError = requestProfileError(request_profile);
+      if (profileError) {
+        res.status(400).json({ error: profileError });
+        return;
+      }
+
+      if (url_set && !db.getUrlSet(url_set)) {
+        res.status(400).json({ error: `URL set ${url_set} not found` });
+        return;
+      }
+
+      if (traffic_set && !db.getUrlSet(traffic_set)) {
+        res.status(400).json({ error: `URL set ${traffic_set} not found` });
+        return;
+      }
+
+      const taskId = db.createScheduledTask(
+        name,
+        domain,
+        cron_expression,
+        request_profile,
+        url_set,
+        traffic_set
+      );
       const task = db.getScheduledTask(taskId);
 
       // Schedule the task
@@ -250,7 +532,23 @@ export function createWebServer(db: DatabaseManager, port: number = 3000): expre
   app.put('/api/scheduled-tasks/:id', (req, res) => {
     try {
       const taskId = parseInt(req.params.id);
-      const { name, domain, cron_expression, enabled } = req.body;
+      const { name, domain, cron_expression, enabled, request_profile, url_set, traffic_set } = req.body;
+
+      const profileError = request_profile === null ? undefined : requestProfileError(request_profile);
+      if (profileError) {
+        res.status(400).json({ error: profileError });
+        return;
+      }
+
+      if (url_set && !db.getUrlSet(url_set)) {
+        res.status(400).json({ error: `URL set ${url_set} not found` });
+        return;
+      }
+
+      if (traffic_set && !db.getUrlSet(traffic_set)) {
+        res.status(400).json({ error: `URL set ${traffic_set} not found` });
+        return;
+      }
 
       const existingTask = db.getScheduledTask(taskId);
       if (!existingTask) {
@@ -264,6 +562,9 @@ export function createWebServer(db: DatabaseManager, port: number = 3000): expre
       if (domain !== undefined) updateData.domain = domain;
       if (cron_expression !== undefined) updateData.cron_expression = cron_expression;
       if (enabled !== undefined) updateData.enabled = enabled ? 1 : 0;
+      if (request_profile !== undefined) updateData.request_profile = request_profile;
+      if (url_set !== undefined) updateData.url_set = url_set;
+      if (traffic_set !== undefined) updateData.traffic_set = traffic_set;
 
       db.updateScheduledTask(taskId, updateData);
       const updatedTask = db.getScheduledTask(taskId);
@@ -318,7 +619,12 @@ export function createWebServer(db: DatabaseManager, port: number = 3000): expre
       }
 
       // Start scan asynchronously
-      runScan(task.domain, db, { source: 'manual' }).catch(error => {
+      runScan(task.domain, db, {
+        source: 'manual',
+        requestProfile: task.request_profile || undefined,
+        urlSet: task.url_set || undefined,
+        trafficSet: task.traffic_set || undefined,
+      }).catch(error => {
         console.error('Scheduled scan failed:', error);
       });
 
@@ -518,6 +824,222 @@ export function createWebServer(db: DatabaseManager, port: number = 3000): expre
     }
   });
 
+  /**
+   * GET /api/auth-profiles - List auth profiles (credentials are never returned)
+   */
+  app.get('/api/auth-profiles', (req, res) => {
+    try {
+      res.json(db.getAuthProfiles());
+    } catch (error) {
+      res.status(500).json({ error: 'Failed to fetch auth profiles' });
+    }
+  });
+
+  /**
+   * PUT /api/auth-profiles/:domain - Create or replace the auth profile of a domain
+   * Body: { type: 'script', steps, loginUrlPattern? } or { type: 'storage_state', storageState, loginUrlPattern? }
+   */
+  app.put('/api/auth-profiles/:domain', (req, res) => {
+    try {
+      const { domain } = req.params;
+      const { type, steps, storageState, loginUrlPattern } = req.body;
+
+      if (!hasSecretKey()) {
+        res.status(400).json({ error: 'ENSPIDER_SECRET_KEY must be set to store auth profiles' });
+        return;
+      }
+
+      if (type === 'script') {
+        if (!Array.isArray(steps) || steps.length === 0) {
+          res.status(400).json({ error: 'steps must be a non-empty array' });
+          return;
+        }
+        const validActions = ['goto', 'fill', 'click', 'press', 'wait'];
+        if (steps.some((step: any) => !validActions.includes(step?.action))) {
+          res.status(400).json({ error: `Step action must be one of: ${validActions.join(', ')}` });
+          return;
+        }
+      } else if (type === 'storage_state') {
+        if (!storageState || !Array.isArray(storageState.cookies)) {
+          res.status(400).json({ error: 'storageState must be a Playwright storage state with cookies' });
+          return;
+        }
+      } else {
+        res.status(400).json({ error: "type must be 'script' or 'storage_state'" });
+        return;
+      }
+
+      if (loginUrlPattern) {
+        try {
+          new RegExp(loginUrlPattern);
+        } catch {
+          res.status(400).json({ error: 'loginUrlPattern is not a valid regular expression' });
+          return;
+        }
+      }
+
+      const credentials = type === 'script'
+        ? { steps }
+        : { storageState: { cookies: storageState.cookies, origins: storageState.origins || [] } };
+      db.saveAuthProfile(domain, type, credentials, loginUrlPattern);
+      res.json({ message: 'Auth profile saved successfully', domain, type });
+    } catch (error) {
+      res.status(500).json({ error: 'Failed to save auth profile' });
+    }
+  });
+
+  /**
+   * DELETE /api/auth-profiles/:domain - Delete the auth profile of a domain
+   */
+  app.delete('/api/auth-profiles/:domain', (req, res) => {
+    try {
+      db.deleteAuthProfile(req.params.domain);
+      res.json({ message: 'Auth profile deleted successfully', domain: req.params.domain });
+    } catch (error) {
+      res.status(500).json({ error: 'Failed to delete auth profile' });
+    }
+  });
+
+  /**
+   * GET /api/clusters - Clusters known for a domain
+   */
+  app.get('/api/clusters', (req, res) => {
+    try {
+      const domain = req.query.domain as string | undefined;
+      if (!domain) {
+        res.status(400).json({ error: 'domain is required' });
+        return;
+      }
+
+      const clusters = db.getClusters(domain).map(({ representative, ...cluster }) => ({
+        ...cluster,
+        representative_url: representative.url,
+      }));
+      res.json(clusters);
+    } catch (error) {
+      res.status(500).json({ error: 'Failed to fetch clusters' });
+    }
+  });
+
+  /**
+   * GET /api/clusters/:id/history - Pages and issues per test for a cluster
+   */
+  app.get('/api/clusters/:id/history', (req, res) => {
+    try {
+      res.json(db.getClusterHistory(req.params.id));
+    } catch (error) {
+      res.status(500).json({ error: 'Failed to fetch cluster history' });
+    }
+  });
+
+  /**
+   * GET /api/url-sets - List named URL sets
+   */
+  app.get('/api/url-sets', (req, res) => {
+    try {
+      res.json(db.getUrlSets());
+    } catch (error) {
+      res.status(500).json({ error: 'Failed to fetch URL sets' });
+    }
+  });
+
+  /**
+   * GET /api/url-sets/:name - Get a URL set with its URLs
+   */
+  app.get('/api/url-sets/:name', (req, res) => {
+    try {
+      const urlSet = db.getUrlSet(req.params.name);
+      if (!urlSet) {
+        res.status(404).json({ error: 'URL set not found' });
+        return;
+      }
+      res.json(urlSet);
+    } catch (error) {
+      res.status(500).json({ error: 'Failed to fetch URL set' });
+    }
+  });
+
+  /**
+   * POST /api/url-sets/:name/import - Import a CSV (url,weight,label), HAR or text list
+   * Query: domain (required), format (csv|har|text, detected when omitted), append
+   * Body: the raw file content with any content type, up to 20mb
+   */
+  app.post('/api/url-sets/:name/import', express.text({ type: '*/*', limit: '20mb' }), async (req, res) => {
+    try {
+      const { name } = req.params;
+      const domain = req.query.domain as string;
+      const append = req.query.append === 'true';
+      const content = typeof req.body === 'string' ? req.body : '';
+
+      if (!domain) {
+        res.status(400).json({ error: 'domain is required' });
+        return;
+      }
+      if (!content.trim()) {
+        res.status(400).json({ error: 'Request body must contain the URL list' });
+        return;
+      }
+
+      const format = (req.query.format as UrlListFormat | undefined) || detectUrlListFormat(content);
+      if (!['csv', 'har', 'text'].includes(format)) {
+        res.status(400).json({ error: 'format must be csv, har or text' });
+        return;
+      }
+
+      const existing = db.getUrlSet(name);
+      if (append && existing && existing.domain !== domain) {
+        res.status(400).json({ error: `URL set ${name} belongs to ${existing.domain}` });
+        return;
+      }
+
+      const configPath = path.join(process.cwd(), 'config', 'default.json');
+      const config: Config = JSON.parse(await fs.readFile(configPath, 'utf-8'));
+      const normalizer = new URLNormalizer(
+        domain,
+        config.excludedPatterns,
+        resolveQueryParamRules(config.queryParams, domain)
+      );
+
+      let result;
+      try {
+        result = importUrlList(content, format, normalizer);
+      } catch (error) {
+        res.status(400).json({ error: error instanceof Error ? error.message : 'Invalid URL list' });
+        return;
+      }
+
+      const urls = append && existing ? mergeUrlLists(existing.urls, result.urls) : result.urls;
+      db.saveUrlSet(name, domain, urls);
+
+      res.json({
+        name,
+        domain,
+        format,
+        imported: result.urls.length,
+        total: urls.length,
+        rejected: result.rejected,
+      });
+    } catch (error) {
+      res.status(500).json({ error: 'Failed to import URL set' });
+    }
+  });
+
+  /**
+   * DELETE /api/url-sets/:name - Delete a URL set
+   */
+  app.delete('/api/url-sets/:name', (req, res) => {
+    try {
+      if (!db.getUrlSet(req.params.name)) {
+        res.status(404).json({ error: 'URL set not found' });
+        return;
+      }
+      db.deleteUrlSet(req.params.name);
+      res.json({ message: 'URL set deleted successfully', name: req.params.name });
+    } catch (error) {
+      res.status(500).json({ error: 'Failed to delete URL set' });
+    }
+  });
+
   /**
    * GET /api/config/cleanup-policy - Get cleanup policy
    */
@@ -570,6 +1092,42 @@ export function createWebServer(db: DatabaseManager, port: number = 3000): expre
     }
   });
 
+  /**
+   * GET /api/url-rules/preview - Preview how a URL is normalized
+   * Query: url (required), domain (defaults to the URL's hostname)
+   */
+  app.get('/api/url-rules/preview', async (req, res) => {
+    try {
+      const url = req.query.url as string;
+      if (!url) {
+        res.status(400).json({ error: 'url is required' });
+        return;
+      }
+
+      let domain = req.query.domain as string;
+      if (!domain) {
+        try {
+          domain = new URL(url).hostname;
+        } catch {
+          res.status(400).json({ error: 'url must be absolute when domain is not given' });
+          return;
+        }
+      }
+
+      const configPath = path.join(process.cwd(), 'config', 'default.json');
+      const config: Config = JSON.parse(await fs.readFile(configPath, 'utf-8'));
+      const normalizer = new URLNormalizer(
+        domain,
+        config.excludedPatterns,
+        resolveQueryParamRules(config.queryParams, domain)
+      );
+
+      res.json({ domain, ...normalizer.preview(url) });
+    } catch (error) {
+      res.status(500).json({ error: 'Failed to preview URL normalization' });
+    }
+  });
+
   /**
    * GET /api/stats - Get database statistics
    */
@@ -6,8 +6,10 @@ export interface Config {
   concurrency: number;
   timeout: number;
   retries: number;
+  retryDelay: number;
   delay: number;
-  similarityThreshold: number;
+  // Dendrogram cut; when unset it is tuned per scan by silhouette score
+  similarityThreshold?: number;
   viewports: {
     pc: ViewportConfig;
     mobile: ViewportConfig;
@@ -15,12 +17,131 @@ export interface Config {
   excludedPatterns: string[];
   output: OutputConfig;
   checks: CheckConfig;
-  pageTypePatterns: PageTypePatterns;
+  categoryRules: CategoryRule[];
+  crawl: CrawlConfig;
+  sitemap: SitemapConfig;
+  queryParams?: QueryParamConfig;
+  linkCheck: LinkCheckConfig;
+  spaDiscovery: SpaDiscoveryConfig;
+  politeness: PolitenessConfig;
+  urlTemplates: UrlTemplateConfig;
+  sampling: SamplingConfig;
+  visualSimilarity: VisualSimilarityConfig;
+  lsh: LshConfig;
+  requestProfiles?: RequestProfileConfig;
 }
 
-export interface PageTypePatterns {
-  detail: RegExp[];
-  list: RegExp[];
+/**
+ * How a browser context presents itself to the site
+ */
+export interface RequestProfile {
+  headers?: Record<string, string>;
+  cookies?: Array<{ name: string; value: string; path?: string }>;
+  locale?: string;
+  timezone?: string;
+  geolocation?: { latitude: number; longitude: number; accuracy?: number };
+}
+
+export interface RequestProfileConfig {
+  default: RequestProfile;
+  domains?: Record<string, RequestProfile>;
+}
+
+export interface CrawlConfig {
+  maxDepth: number;
+  maxUrls: number;
+  // Element kinds to take URLs from; all kinds when omitted
+  linkKinds?: LinkKind[];
+}
+
+export interface UrlTemplateConfig {
+  samplesPerTemplate: number;
+  maxSamples: number;
+  minVariants: number;
+}
+
+export interface SamplingConfig {
+  // Share of each cluster's samples reserved for its most-visited pages
+  trafficShare: number;
+}
+
+export type PerceptualHashAlgorithm = 'dhash' | 'phash';
+
+export interface VisualSimilarityConfig {
+  // Hash a low-res screenshot of every fingerprinted page
+  enabled: boolean;
+  // Share of the page similarity score taken by the screenshot hashes
+  weight: number;
+  algorithm: PerceptualHashAlgorithm;
+}
+
+export interface LshConfig {
+  // Pages from which clustering compares LSH candidate pairs instead of all pairs
+  minPages: number;
+  // Bands the MinHash signature is cut into; more bands find less similar pairs
+  bands: number;
+  // Pairs per page taken from one oversized bucket
+  maxBucketSize: number;
+}
+
+export interface SpaDiscoveryConfig {
+  enabled: boolean;
+  maxPages: number;
+  maxClicks: number;
+}
+
+/**
+ * Per-host navigation pacing; config.concurrency caps parallel navigations
+ * per host
+ */
+export interface PolitenessConfig {
+  minDelay: number;
+  backoffBase: number;
+  maxBackoff: number;
+}
+
+export interface LinkCheckConfig {
+  maxLinks: number;
+  delay: number;
+  includeExternal: boolean;
+}
+
+export interface SitemapConfig {
+  enabled: boolean;
+  maxSitemaps: number;
+  maxUrls: number;
+  auditMaxUrls: number;
+}
+
+export interface QueryParamRules {
+  strip: string[];
+  keep: string[];
+  pagination: string[];
+  collapsePagination: boolean;
+}
+
+export interface QueryParamConfig {
+  default: QueryParamRules;
+  domains?: Record<string, Partial<QueryParamRules>>;
+}
+
+export type PageType = 'homepage' | 'detail' | 'list' | 'other';
+
+/**
+ * Maps matching pages to a named category and a page type. Every condition
+ * that is set must hold; rules are tried in order.
+ */
+export interface CategoryRule {
+  category: string;
+  pageType?: PageType;
+  // Path regexes (case-insensitive); any may match
+  url?: string[];
+  // CSS selectors; any must be present on the page
+  selectors?: string[];
+  // Fingerprint thresholds
+  minNodeCount?: number;
+  minDepth?: number;
+  minBreadth?: number;
 }
 
 export interface ViewportConfig {
@@ -54,12 +175,77 @@ export interface CheckConfig {
   timeout: boolean;
   jsErrors: boolean;
   brokenImages: boolean;
+  robots: boolean;
+  brokenLinks: boolean;
+  redirects: boolean;
 }
 
+/**
+ * A URL imported from a CSV (url, weight, label), HAR or plain-text list
+ */
+export interface ImportedUrl {
+  url: string;
+  weight?: number;
+  label?: string;
+}
+
+export type UrlListFormat = 'csv' | 'har' | 'text';
+
+export type UrlSource = 'homepage' | 'crawl' | 'sitemap' | 'spa' | 'custom';
+
+/**
+ * Element a URL was extracted from
+ */
+export type LinkKind = 'anchor' | 'area' | 'canonical' | 'alternate' | 'next' | 'prev' | 'iframe' | 'form' | 'data-attr';
+
 export interface PageUrl {
   url: string;
   domain: string;
   normalized: string;
+  depth?: number;
+  source?: UrlSource;
+  kind?: LinkKind;
+}
+
+/**
+ * A link found on a crawled page. URLs are normalized so edges line up
+ * with the crawl frontier.
+ */
+export interface LinkEdge {
+  source: string;
+  target: string;
+  anchorText: string;
+  rel?: string;
+}
+
+export interface RedirectHop {
+  url: string;
+  status: number;
+}
+
+/**
+ * One step of a scripted login flow
+ */
+export interface LoginStep {
+  action: 'goto' | 'fill' | 'click' | 'press' | 'wait';
+  url?: string;
+  selector?: string;
+  value?: string;
+}
+
+export interface StorageStateData {
+  cookies: any[];
+  origins: any[];
+}
+
+export type AuthProfileType = 'script' | 'storage_state';
+
+/**
+ * Secret part of an auth profile, stored encrypted
+ */
+export interface AuthCredentials {
+  steps?: LoginStep[];
+  storageState?: StorageStateData;
 }
 
 export interface PageResult {
@@ -78,6 +264,9 @@ export interface PageResult {
   timestamp: number;
   loadTime: number;
   httpStatus: number;
+  viewportStatus?: Partial<Record<ViewportType, number>>;
+  redirectChains?: Partial<Record<ViewportType, RedirectHop[]>>;
+  attempts?: Partial<Record<ViewportType, number>>;
   requestIds?: {
     pc_normal?: string;
     mobile_normal?: string;
@@ -97,7 +286,7 @@ export interface PageResult {
 }
 
 export interface Issue {
-  type: 'viewport_overflow' | 'horizontal_scroll' | 'http_error' | 'timeout' | 'js_error' | 'broken_image' | 'error_text' | 'request_id' | 'screenshot_failed';
+  type: 'viewport_overflow' | 'horizontal_scroll' | 'http_error' | 'timeout' | 'dns_error' | 'connection_reset' | 'server_error' | 'navigation_failed' | 'scan_error' | 'js_error' | 'broken_image' | 'error_text' | 'request_id' | 'screenshot_failed' | 'robots_disallowed' | 'spider_blocked' | 'redirect_chain' | 'redirect_loop' | 'temporary_redirect' | 'cross_locale_redirect' | 'login_redirect';
   severity: 'error' | 'warning' | 'info';
   message: string;
   viewport: ViewportType;
@@ -110,6 +299,32 @@ export interface DOMFingerprint {
   depth: number;
   breadth: number;
   nodeCount: number;
+  crawlDepth?: number;
+  alternates?: Record<string, string>;
+  urlTemplate?: string;
+  // Hashed, normalized counts of tag-path shingles over the main content
+  structureVector?: number[];
+  // MinHash signature over class patterns and tag-path shingles
+  minHash?: number[];
+  // Category rule selectors found on the page
+  matchedSelectors?: string[];
+  // Perceptual hash of a low-res viewport screenshot, e.g. "dhash:8f0e..."
+  visualHash?: string;
+}
+
+/**
+ * URLs sharing one path shape, e.g. /products/{slug}-{id}.html
+ */
+export interface UrlTemplate {
+  template: string;
+  urls: string[];
+}
+
+export interface UrlTemplateSummary {
+  template: string;
+  urlCount: number;
+  fingerprinted: number;
+  examples: string[];
 }
 
 export interface PageCluster {
@@ -117,6 +332,40 @@ export interface PageCluster {
   category: string;
   members: DOMFingerprint[];
   representative: DOMFingerprint;
+  templates?: string[];
+}
+
+/**
+ * Node of the average-linkage dendrogram. Leaves are pages (id = index of
+ * the fingerprint); inner nodes merge two subtrees at the average
+ * similarity between them.
+ */
+export interface DendrogramNode {
+  id: number;
+  size: number;
+  similarity: number;
+  url?: string;
+  children?: [DendrogramNode, DendrogramNode];
+  // Set on the subtrees that became clusters
+  clusterId?: string;
+}
+
+export interface ClusterTree {
+  threshold: number;
+  // The threshold was chosen by silhouette score
+  suggested: boolean;
+  silhouette?: number;
+  root: DendrogramNode | null;
+}
+
+/**
+ * Persisted identity of a cluster, used to recognize it in later scans
+ */
+export interface ClusterSignature {
+  id: string;
+  category: string;
+  representative: DOMFingerprint;
+  templates: string[];
 }
 
 export interface ScanReport {
@@ -125,6 +374,7 @@ export interface ScanReport {
   totalPages: number;
   totalIssues: number;
   categories: number;
+  urlTemplates?: UrlTemplateSummary[];
   pages: PageResult[];
 }
 
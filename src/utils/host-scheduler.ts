@@ -0,0 +1,105 @@
+import { Config } from '../types.js';
+import logger from './logger.js';
+
+interface HostState {
+  active: number;
+  waiting: Array<() => void>;
+  nextStart: number;
+  backoff: number;
+}
+
+const THROTTLE_STATUSES = [429, 503];
+
+/**
+ * Per-host politeness: at most config.concurrency navigations run against a
+ * host at once, starts are spaced by politeness.minDelay, and 429/503
+ * responses push the next start back with exponential backoff. Share one
+ * instance between everything that navigates during a scan.
+ */
+export class HostScheduler {
+  private concurrency: number;
+  private minDelay: number;
+  private backoffBase: number;
+  private maxBackoff: number;
+  private hosts: Map<string, HostState> = new Map();
+
+  constructor(config: Config) {
+    this.concurrency = Math.max(1, config.concurrency);
+    this.minDelay = config.politeness.minDelay;
+    this.backoffBase = config.politeness.backoffBase;
+    this.maxBackoff = config.politeness.maxBackoff;
+  }
+
+  private hostOf(url: string): string {
+    try {
+      return new URL(url).hostname;
+    } catch {
+      return url;
+    }
+  }
+
+  private getState(host: string): HostState {
+    let state = this.hosts.get(host);
+    if (!state) {
+      state = { active: 0, waiting: [], nextStart: 0, backoff: 0 };
+      this.hosts.set(host, state);
+    }
+    return state;
+  }
+
+  private async acquire(state: HostState): Promise<void> {
+    if (state.active < this.concurrency) {
+      state.active++;
+    } else {
+      // The releasing task hands its slot over, so active is unchanged
+      await new Promise<void>(resolve => state.waiting.push(resolve));
+    }
+
+    // Reserve a start time so concurrent tasks stay minDelay apart
+    const now = Date.now();
+    const startAt = Math.max(now, state.nextStart);
+    state.nextStart = startAt + this.minDelay;
+    if (startAt > now) {
+      await new Promise(resolve => setTimeout(resolve, startAt - now));
+    }
+  }
+
+  private release(state: HostState): void {
+    const next = state.waiting.shift();
+    if (next) {
+      next();
+    } else {
+      state.active--;
+    }
+  }
+
+  /**
+   * Run a navigation once the host has a free slot
+   */
+  async schedule<T>(url: string, task: () => Promise<T>): Promise<T> {
+    const state = this.getState(this.hostOf(url));
+    await this.acquire(state);
+    try {
+      return await task();
+    } finally {
+      this.release(state);
+    }
+  }
+
+  /**
+   * Record the HTTP status of a navigation. Throttling responses double the
+   * host's backoff; successful ones let it decay again.
+   */
+  report(url: string, status: number): void {
+    const host = this.hostOf(url);
+    const state = this.getState(host);
+
+    if (THROTTLE_STATUSES.includes(status)) {
+      state.backoff = Math.min(Math.max(this.backoffBase, state.backoff * 2), this.maxBackoff);
+      state.nextStart = Math.max(state.nextStart, Date.now() + state.backoff);
+      logger.warn(`${host} answered HTTP ${status}, backing off for ${state.backoff}ms`);
+    } else if (status > 0 && status < 400 && state.backoff > 0) {
+      state.backoff = state.backoff / 2 < this.backoffBase ? 0 : state.backoff / 2;
+    }
+  }
+}
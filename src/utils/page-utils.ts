@@ -1,39 +1,4 @@
-import { PageTypePatterns, ViewportMode, ViewportType, ViewportConfig } from '../types.js';
-
-/**
- * Identify page type from URL
- */
-export function identifyPageType(url: string, patterns: PageTypePatterns): 'homepage' | 'detail' | 'list' | 'other' {
-  try {
-    const urlObj = new URL(url);
-    const pathname = urlObj.pathname;
-
-    // Check homepage
-    if (pathname === '/' || pathname === '') {
-      return 'homepage';
-    }
-
-    // Check detail pages
-    for (const pattern of patterns.detail) {
-      const regex = new RegExp(pattern);
-      if (regex.test(pathname)) {
-        return 'detail';
-      }
-    }
-
-    // Check list pages
-    for (const pattern of patterns.list) {
-      const regex = new RegExp(pattern);
-      if (regex.test(pathname)) {
-        return 'list';
-      }
-    }
-
-    return 'other';
-  } catch {
-    return 'other';
-  }
-}
+import { ViewportMode, ViewportType, ViewportConfig } from '../types.js';
 
 /**
  * Get UserAgent strings for different modes
@@ -0,0 +1,62 @@
+import { BrowserContext, BrowserContextOptions } from 'playwright';
+import { RequestProfile, RequestProfileConfig } from '../types.js';
+
+/**
+ * Layer request profiles: later profiles override locale, timezone and
+ * geolocation, add headers, and replace cookies with the same name
+ */
+export function mergeRequestProfiles(...profiles: Array<RequestProfile | undefined>): RequestProfile {
+  const merged: RequestProfile = {};
+
+  for (const profile of profiles) {
+    if (!profile) continue;
+    if (profile.headers) merged.headers = { ...merged.headers, ...profile.headers };
+    if (profile.cookies) {
+      const names = new Set(profile.cookies.map(c => c.name));
+      merged.cookies = [...(merged.cookies || []).filter(c => !names.has(c.name)), ...profile.cookies];
+    }
+    if (profile.locale) merged.locale = profile.locale;
+    if (profile.timezone) merged.timezone = profile.timezone;
+    if (profile.geolocation) merged.geolocation = profile.geolocation;
+  }
+
+  return merged;
+}
+
+/**
+ * Resolve the profile for a host: config default, then the host's entry,
+ * then a per-scan override (e.g. from a scheduled task)
+ */
+export function resolveRequestProfile(
+  config: RequestProfileConfig | undefined,
+  host: string,
+  override?: RequestProfile
+): RequestProfile {
+  return mergeRequestProfiles(config?.default, config?.domains?.[host], override);
+}
+
+/**
+ * Browser context options for a profile. Cookies are not part of the
+ * options; apply them with applyProfileCookies once the context exists.
+ */
+export function profileContextOptions(profile: RequestProfile): BrowserContextOptions {
+  const options: BrowserContextOptions = {};
+  if (profile.headers) options.extraHTTPHeaders = profile.headers;
+  if (profile.locale) options.locale = profile.locale;
+  if (profile.timezone) options.timezoneId = profile.timezone;
+  if (profile.geolocation) {
+    options.geolocation = profile.geolocation;
+    options.permissions = ['geolocation'];
+  }
+  return options;
+}
+
+export async function applyProfileCookies(context: BrowserContext, profile: RequestProfile, host: string): Promise<void> {
+  if (!profile.cookies || profile.cookies.length === 0) return;
+  await context.addCookies(profile.cookies.map(cookie => ({
+    name: cookie.name,
+    value: cookie.value,
+    domain: host,
+    path: cookie.path || '/',
+  })));
+}
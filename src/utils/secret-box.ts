@@ -0,0 +1,35 @@
+import crypto from 'crypto';
+
+const KEY_ENV = 'ENSPIDER_SECRET_KEY';
+
+/**
+ * Whether a key for encrypting stored secrets is configured
+ */
+export function hasSecretKey(): boolean {
+  return !!process.env[KEY_ENV];
+}
+
+function getKey(): Buffer {
+  const secret = process.env[KEY_ENV];
+  if (!secret) {
+    throw new Error(`${KEY_ENV} must be set to store or read auth profiles`);
+  }
+  return crypto.createHash('sha256').update(secret).digest();
+}
+
+/**
+ * Encrypt a string with AES-256-GCM. The result is "iv:tag:ciphertext" in base64.
+ */
+export function encryptSecret(plain: string): string {
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv('aes-256-gcm', getKey(), iv);
+  const encrypted = Buffer.concat([cipher.update(plain, 'utf-8'), cipher.final()]);
+  return [iv, cipher.getAuthTag(), encrypted].map(part => part.toString('base64')).join(':');
+}
+
+export function decryptSecret(payload: string): string {
+  const [iv, tag, encrypted] = payload.split(':').map(part => Buffer.from(part, 'base64'));
+  const decipher = crypto.createDecipheriv('aes-256-gcm', getKey(), iv);
+  decipher.setAuthTag(tag);
+  return Buffer.concat([decipher.update(encrypted), decipher.final()]).toString('utf-8');
+}